@@ -3,6 +3,8 @@ import { Marker, Popup, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
 import { latLngToCell } from 'h3-js';
 import type { TravelTimeRange } from './TravelTimeFilter';
+import { isInStops, type ColorStop } from '../utils/colors';
+import { formatItinerary, type ItineraryDetails, type HexScoreMap } from '../utils/scoring';
 
 interface Address {
   city: string;
@@ -24,7 +26,7 @@ interface BuildingProperties {
   subscribersCount: number;
 }
 
-interface Building {
+export interface Building {
   id: string;
   addresses: Address[];
   geometry: {
@@ -37,9 +39,14 @@ interface Building {
 interface BuildingsLayerProps {
   buildings: Building[];
   minZoom?: number;
+  // Minutes of the map's view, named by scoreLabel (e.g. "Round trip to Pasila")
   hexScores?: Record<string, number>;
+  scoreLabel?: string;
+  hexItineraries?: Record<string, ItineraryDetails>;
   h3Resolution?: number;
   travelTimeFilter?: TravelTimeRange | null;
+  // Travel time bands switched off in the legend, and the minutes they apply to (e.g. round trips)
+  hiddenBands?: { stops: ColorStop[]; scores: HexScoreMap } | null;
   onVisibleBuildingCountChange?: (count: number) => void;
 }
 
@@ -81,26 +88,30 @@ function travelTimeInRange(minutes: number, range: TravelTimeRange): boolean {
   return minutes <= range.max;
 }
 
-export function BuildingsLayer({ buildings, minZoom = 14, hexScores, h3Resolution = 9, travelTimeFilter = null, onVisibleBuildingCountChange }: BuildingsLayerProps) {
+export function BuildingsLayer({ buildings, minZoom = 14, hexScores, scoreLabel = 'Travel time', hexItineraries, h3Resolution = 9, travelTimeFilter = null, hiddenBands = null, onVisibleBuildingCountChange }: BuildingsLayerProps) {
   const map = useMap();
   const [zoom, setZoom] = useState(map.getZoom());
   const [bounds, setBounds] = useState(map.getBounds());
 
-  // Filter buildings to those in view and (if filter active) within travel time range
+  // Filter buildings to those in view, (if filter active) within travel time range and outside hidden bands
   const visibleBuildings = useMemo(() => {
     if (zoom < minZoom) {
       return [];
     }
+    const hiddenStops = hiddenBands?.stops ?? [];
     return buildings.filter((building) => {
       const center = building.addresses[0]?.coordinates || getPolygonCenter(building.geometry.coordinates);
       if (!bounds.contains([center.lat, center.lng])) return false;
-      if (travelTimeFilter === null) return true;
+      if (travelTimeFilter === null && hiddenStops.length === 0) return true;
       const hexId = latLngToCell(center.lat, center.lng, h3Resolution);
+      const bandMinutes = hiddenBands?.scores[hexId];
+      if (bandMinutes !== undefined && isInStops(hiddenStops, bandMinutes)) return false;
+      if (travelTimeFilter === null) return true;
       const travelTime = hexScores?.[hexId];
       if (travelTime === undefined) return false;
       return travelTimeInRange(travelTime, travelTimeFilter);
     });
-  }, [buildings, bounds, zoom, minZoom, travelTimeFilter, hexScores, h3Resolution]);
+  }, [buildings, bounds, zoom, minZoom, travelTimeFilter, hiddenBands, hexScores, h3Resolution]);
 
   useEffect(() => {
     onVisibleBuildingCountChange?.(visibleBuildings.length);
@@ -136,6 +147,7 @@ export function BuildingsLayer({ buildings, minZoom = 14, hexScores, h3Resolutio
         // Get travel time for this building's location
         const hexId = latLngToCell(center.lat, center.lng, h3Resolution);
         const travelTime = hexScores?.[hexId];
+        const itinerary = hexItineraries?.[hexId];
 
         return (
           <Marker
@@ -156,8 +168,13 @@ export function BuildingsLayer({ buildings, minZoom = 14, hexScores, h3Resolutio
                 )}
                 {travelTime !== undefined && (
                   <div style={{ marginTop: 8, padding: '4px 0', borderTop: '1px solid #eee' }}>
-                    <span style={{ color: '#666' }}>Travel to center:</span>{' '}
+                    <span style={{ color: '#666' }}>{scoreLabel}:</span>{' '}
                     <strong>{travelTime} min</strong>
+                    {itinerary && (
+                      <div style={{ marginTop: 4, fontSize: 11, color: '#444' }}>
+                        {formatItinerary(itinerary)}
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -0,0 +1,459 @@
+import type { ComparisonDataset, Destination } from '../utils/destinations';
+import type { RegionProfile } from '../utils/regions';
+import type { HexColorBy } from '../utils/colors';
+import {
+  AGGREGATION_METHODS,
+  TRAVEL_TIME_STATISTICS,
+  type AggregationMethod,
+  type TravelTimeStatistic,
+} from '../utils/scoring';
+import { FASTEST_MODE, getTravelModeLabel, type TravelMode, type TravelModeView } from '../utils/modes';
+import { TRAVEL_DIRECTIONS, type TravelDirection } from '../utils/directions';
+import { GAP_FILL_METHODS, MAX_GAP_FILL_RADIUS, type GapFillMethod } from '../utils/gapfill';
+import {
+  BREAK_METHODS,
+  MAX_CLASSES,
+  MIN_CLASSES,
+  PALETTES,
+  parseBreaks,
+  type BreakMethod,
+  type ColorScaleConfig,
+  type PaletteId,
+} from '../utils/colorscales';
+
+interface DisplayOptionsProps {
+  regions: RegionProfile[];
+  regionId: string;
+  onRegionChange: (id: string) => void;
+  destinations: Destination[];
+  destinationId: string;
+  onDestinationChange: (id: string) => void;
+  statistic: TravelTimeStatistic;
+  onStatisticChange: (statistic: TravelTimeStatistic) => void;
+  availableModes: TravelMode[];
+  travelMode: TravelModeView;
+  onTravelModeChange: (mode: TravelModeView) => void;
+  // Direction choices are only offered when the dataset has return trips
+  hasReturnTrips: boolean;
+  direction: TravelDirection;
+  onDirectionChange: (direction: TravelDirection) => void;
+  asymmetryThreshold: number;
+  onAsymmetryThresholdChange: (minutes: number) => void;
+  colorBy: HexColorBy;
+  onColorByChange: (colorBy: HexColorBy) => void;
+  // Datasets the change view can compare against: earlier ones of the destination, then other destinations
+  baselines: ComparisonDataset[];
+  baseline: string | null;
+  onBaselineChange: (key: string) => void;
+  // Palette and bands of the travel time colors
+  colorScale: ColorScaleConfig;
+  onColorScaleChange: (config: ColorScaleConfig) => void;
+  clipToCoastline: boolean;
+  onClipToCoastlineChange: (clip: boolean) => void;
+  aggregationMethod: AggregationMethod;
+  onAggregationMethodChange: (method: AggregationMethod) => void;
+  aggregationPercentile: number;
+  onAggregationPercentileChange: (percentile: number) => void;
+  gapFillMethod: GapFillMethod;
+  onGapFillMethodChange: (method: GapFillMethod) => void;
+  gapFillRadius: number;
+  onGapFillRadiusChange: (radius: number) => void;
+}
+
+const COLOR_BY_OPTIONS: { id: HexColorBy; label: string }[] = [
+  { id: 'travel-time', label: 'Travel time' },
+  { id: 'data-age', label: 'Data age' },
+  { id: 'livability', label: 'Livability score' },
+  { id: 'change', label: 'Change against another dataset' },
+];
+
+const labelStyle = {
+  display: 'block',
+  fontSize: '11px',
+  color: '#64748b',
+  marginBottom: '4px',
+};
+
+const rowStyle = {
+  marginTop: '10px',
+};
+
+const selectStyle = {
+  width: '100%',
+  padding: '4px 6px',
+  fontSize: '13px',
+  border: '1px solid #e2e8f0',
+  borderRadius: '4px',
+  backgroundColor: 'white',
+};
+
+export function DisplayOptions({
+  regions,
+  regionId,
+  onRegionChange,
+  destinations,
+  destinationId,
+  onDestinationChange,
+  statistic,
+  onStatisticChange,
+  availableModes,
+  travelMode,
+  onTravelModeChange,
+  hasReturnTrips,
+  direction,
+  onDirectionChange,
+  asymmetryThreshold,
+  onAsymmetryThresholdChange,
+  colorBy,
+  onColorByChange,
+  baselines,
+  baseline,
+  onBaselineChange,
+  colorScale,
+  onColorScaleChange,
+  clipToCoastline,
+  onClipToCoastlineChange,
+  aggregationMethod,
+  onAggregationMethodChange,
+  aggregationPercentile,
+  onAggregationPercentileChange,
+  gapFillMethod,
+  onGapFillMethodChange,
+  gapFillRadius,
+  onGapFillRadiusChange,
+}: DisplayOptionsProps) {
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: '20px',
+        right: '20px',
+        backgroundColor: 'white',
+        padding: '12px 16px',
+        borderRadius: '8px',
+        boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+        zIndex: 1000,
+        fontFamily: 'system-ui, sans-serif',
+        fontSize: '13px',
+        minWidth: '200px',
+      }}
+    >
+      <label style={labelStyle} htmlFor="region-select">
+        Region
+      </label>
+      <select
+        id="region-select"
+        value={regionId}
+        onChange={(e) => onRegionChange(e.target.value)}
+        style={selectStyle}
+      >
+        {regions.map((region) => (
+          <option key={region.id} value={region.id}>
+            {region.name}
+          </option>
+        ))}
+      </select>
+
+      <div style={rowStyle}>
+        <label style={labelStyle} htmlFor="destination-select">
+          Destination
+        </label>
+        <select
+          id="destination-select"
+          value={destinationId}
+          onChange={(e) => onDestinationChange(e.target.value)}
+          style={selectStyle}
+        >
+          {destinations.map((destination) => (
+            <option key={destination.id} value={destination.id} title={destination.description}>
+              {destination.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div style={rowStyle}>
+        <label style={labelStyle} htmlFor="mode-select">
+          Travel mode
+        </label>
+        <select
+          id="mode-select"
+          value={travelMode}
+          onChange={(e) => onTravelModeChange(e.target.value as TravelModeView)}
+          style={selectStyle}
+        >
+          {availableModes.map((mode) => (
+            <option key={mode} value={mode}>
+              {getTravelModeLabel(mode)}
+            </option>
+          ))}
+          {availableModes.length > 1 && <option value={FASTEST_MODE}>Fastest mode</option>}
+        </select>
+      </div>
+
+      {hasReturnTrips && (
+        <div style={rowStyle}>
+          <label style={labelStyle} htmlFor="direction-select">
+            Direction
+          </label>
+          <select
+            id="direction-select"
+            value={direction}
+            onChange={(e) => onDirectionChange(e.target.value as TravelDirection)}
+            style={selectStyle}
+          >
+            {TRAVEL_DIRECTIONS.map((d) => (
+              <option key={d.id} value={d.id}>
+                {d.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {hasReturnTrips && direction === 'asymmetry' && (
+        <div style={rowStyle}>
+          <label style={labelStyle} htmlFor="asymmetry-threshold">
+            Highlight differences over (min)
+          </label>
+          <input
+            id="asymmetry-threshold"
+            type="number"
+            min={1}
+            max={120}
+            value={asymmetryThreshold}
+            onChange={(e) => {
+              const minutes = Number(e.target.value);
+              if (minutes > 0) onAsymmetryThresholdChange(minutes);
+            }}
+            style={selectStyle}
+          />
+        </div>
+      )}
+
+      <div style={rowStyle}>
+        <label style={labelStyle} htmlFor="statistic-select">
+          Departure time statistic
+        </label>
+        <select
+          id="statistic-select"
+          value={statistic}
+          onChange={(e) => onStatisticChange(e.target.value as TravelTimeStatistic)}
+          style={selectStyle}
+        >
+          {TRAVEL_TIME_STATISTICS.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div style={rowStyle}>
+        <label style={labelStyle} htmlFor="aggregation-select">
+          Combine child hexes when zoomed out
+        </label>
+        <select
+          id="aggregation-select"
+          value={aggregationMethod}
+          onChange={(e) => onAggregationMethodChange(e.target.value as AggregationMethod)}
+          style={selectStyle}
+        >
+          {AGGREGATION_METHODS.map((method) => (
+            <option key={method.id} value={method.id}>
+              {method.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {aggregationMethod === 'percentile' && (
+        <div style={rowStyle}>
+          <label style={labelStyle} htmlFor="aggregation-percentile">
+            Percentile of child hexes
+          </label>
+          <input
+            id="aggregation-percentile"
+            type="number"
+            min={0}
+            max={100}
+            value={aggregationPercentile}
+            onChange={(e) => {
+              const p = Number(e.target.value);
+              if (Number.isInteger(p) && p >= 0 && p <= 100) onAggregationPercentileChange(p);
+            }}
+            style={selectStyle}
+          />
+        </div>
+      )}
+
+      <div style={rowStyle}>
+        <label style={labelStyle} htmlFor="gap-fill-select">
+          Hexes without route data
+        </label>
+        <select
+          id="gap-fill-select"
+          value={gapFillMethod}
+          onChange={(e) => onGapFillMethodChange(e.target.value as GapFillMethod)}
+          style={selectStyle}
+        >
+          {GAP_FILL_METHODS.map((method) => (
+            <option key={method.id} value={method.id}>
+              {method.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {gapFillMethod !== 'none' && (
+        <div style={rowStyle}>
+          <label style={labelStyle} htmlFor="gap-fill-radius">
+            Neighbour rings
+          </label>
+          <input
+            id="gap-fill-radius"
+            type="number"
+            min={1}
+            max={MAX_GAP_FILL_RADIUS}
+            value={gapFillRadius}
+            onChange={(e) => {
+              const radius = Number(e.target.value);
+              if (Number.isInteger(radius) && radius >= 1 && radius <= MAX_GAP_FILL_RADIUS) {
+                onGapFillRadiusChange(radius);
+              }
+            }}
+            style={selectStyle}
+          />
+        </div>
+      )}
+
+      <div style={rowStyle}>
+        <label style={labelStyle} htmlFor="color-by-select">
+          Color hexes by
+        </label>
+        <select
+          id="color-by-select"
+          value={colorBy}
+          onChange={(e) => onColorByChange(e.target.value as HexColorBy)}
+          style={selectStyle}
+        >
+          {COLOR_BY_OPTIONS.filter((option) => option.id !== 'change' || baselines.length > 0).map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {colorBy === 'change' && (
+        <div style={rowStyle}>
+          <label style={labelStyle} htmlFor="baseline-select">
+            Compare with
+          </label>
+          <select
+            id="baseline-select"
+            value={baseline ?? ''}
+            onChange={(e) => onBaselineChange(e.target.value)}
+            style={selectStyle}
+          >
+            {baselines.map((dataset) => (
+              <option key={dataset.key} value={dataset.key}>
+                {dataset.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {colorBy === 'travel-time' && (
+        <div style={rowStyle}>
+          <label style={labelStyle} htmlFor="palette-select">
+            Palette
+          </label>
+          <select
+            id="palette-select"
+            value={colorScale.palette}
+            onChange={(e) => onColorScaleChange({ ...colorScale, palette: e.target.value as PaletteId })}
+            style={selectStyle}
+          >
+            {PALETTES.map((palette) => (
+              <option key={palette.id} value={palette.id}>
+                {palette.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {colorBy === 'travel-time' && (
+        <div style={rowStyle}>
+          <label style={labelStyle} htmlFor="break-method-select">
+            Color bands
+          </label>
+          <select
+            id="break-method-select"
+            value={colorScale.method}
+            onChange={(e) => onColorScaleChange({ ...colorScale, method: e.target.value as BreakMethod })}
+            style={selectStyle}
+          >
+            {BREAK_METHODS.map((method) => (
+              <option key={method.id} value={method.id}>
+                {method.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {colorBy === 'travel-time' && ['equal-interval', 'quantile', 'continuous'].includes(colorScale.method) && (
+        <div style={rowStyle}>
+          <label style={labelStyle} htmlFor="color-classes">
+            Number of bands
+          </label>
+          <input
+            id="color-classes"
+            type="number"
+            min={MIN_CLASSES}
+            max={MAX_CLASSES}
+            value={colorScale.classes}
+            onChange={(e) => {
+              const classes = Number(e.target.value);
+              if (Number.isInteger(classes) && classes >= MIN_CLASSES && classes <= MAX_CLASSES) {
+                onColorScaleChange({ ...colorScale, classes });
+              }
+            }}
+            style={selectStyle}
+          />
+        </div>
+      )}
+
+      {colorBy === 'travel-time' && colorScale.method === 'custom' && (
+        <div style={rowStyle}>
+          <label style={labelStyle} htmlFor="custom-breaks">
+            Band breaks (min)
+          </label>
+          {/* Uncontrolled so that partly typed lists such as "10, " are not rewritten */}
+          <input
+            id="custom-breaks"
+            type="text"
+            defaultValue={colorScale.customBreaks.join(', ')}
+            onChange={(e) => {
+              const breaks = parseBreaks(e.target.value);
+              if (breaks.length > 0) onColorScaleChange({ ...colorScale, customBreaks: breaks });
+            }}
+            style={selectStyle}
+          />
+        </div>
+      )}
+
+      <label style={{ ...rowStyle, display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px' }}>
+        <input
+          type="checkbox"
+          checked={clipToCoastline}
+          onChange={(e) => onClipToCoastlineChange(e.target.checked)}
+        />
+        Clip hexes to coastline
+      </label>
+    </div>
+  );
+}
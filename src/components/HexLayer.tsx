@@ -1,18 +1,67 @@
 import { useEffect, useRef } from 'react';
 import { useMap } from 'react-leaflet';
 import L from 'leaflet';
-import { getHexBoundary } from '../utils/h3';
-import { getTravelTimeColor } from '../utils/colors';
-import { formatTravelTime, HexScoreMap } from '../utils/scoring';
+import { getHexBoundary, getHexLandBoundary } from '../utils/h3';
+import type { RegionProfile } from '../utils/regions';
+import {
+  getAsymmetryColor,
+  getChangeColor,
+  getDataAgeColor,
+  getLivabilityColor,
+  getTravelTimeColor,
+  isInStops,
+  type ColorStop,
+} from '../utils/colors';
+import type { ColorScale } from '../utils/colorscales';
+import { formatDataAge, formatTravelTime, HexScoreMap } from '../utils/scoring';
+import { getTravelModeLabel, type TravelMode } from '../utils/modes';
+import { DEFAULT_ASYMMETRY_THRESHOLD, formatAsymmetry, type TravelDirection } from '../utils/directions';
+import { formatEstimate, type EstimatedScoreMap } from '../utils/gapfill';
+import { formatChange } from '../utils/diff';
 
 interface HexLayerProps {
   hexIds: string[];
   scores: HexScoreMap;
+  // Values of hexes without data, estimated from their neighbours; drawn with a dashed outline
+  estimated?: EstimatedScoreMap | null;
+  destinationName: string;
+  hexModes?: Record<string, TravelMode> | null;
+  // Color by data age (days) instead of travel time when given
+  dataAges?: HexScoreMap | null;
+  // Color by composite livability score (0-100) instead of travel time when given
+  livability?: HexScoreMap | null;
+  // Color by change in minutes against a baseline dataset when given
+  changes?: { deltas: HexScoreMap; baseline: string } | null;
+  // What the scores are: one-way or round trip minutes, or the return minus outbound difference
+  direction?: TravelDirection;
+  asymmetryThreshold?: number;
+  // Scale for travel times (one-way or round trip); the default bands when not given
+  colorScale?: ColorScale | null;
+  // Travel time bands switched off in the legend; their hexes are not drawn
+  hiddenBands?: ColorStop[];
+  // Cut coastal hexes to this region's land so they do not spill onto the sea
+  clipRegion?: RegionProfile | null;
   onHexHover: (hexId: string | null, travelTime: number | null) => void;
   onHexClick: (hexId: string, travelTime: number) => void;
 }
 
-export function HexLayer({ hexIds, scores, onHexHover, onHexClick }: HexLayerProps) {
+export function HexLayer({
+  hexIds,
+  scores,
+  estimated = null,
+  destinationName,
+  hexModes = null,
+  dataAges = null,
+  livability = null,
+  changes = null,
+  direction = 'to',
+  asymmetryThreshold = DEFAULT_ASYMMETRY_THRESHOLD,
+  colorScale = null,
+  hiddenBands = [],
+  clipRegion = null,
+  onHexHover,
+  onHexClick,
+}: HexLayerProps) {
   const map = useMap();
   const layerRef = useRef<L.GeoJSON | null>(null);
   const rendererRef = useRef<L.Canvas | null>(null);
@@ -29,23 +78,35 @@ export function HexLayer({ hexIds, scores, onHexHover, onHexClick }: HexLayerPro
     }
     const canvasRenderer = rendererRef.current;
 
-    // Build GeoJSON FeatureCollection
-    const features = hexIds.map((hexId) => {
-      const boundary = getHexBoundary(hexId);
-      const travelTime = scores[hexId] ?? 60;
+    // Build GeoJSON FeatureCollection; hexes with neither data nor an estimate are not drawn
+    const features = hexIds.flatMap((hexId) => {
+      const travelTime = scores[hexId] ?? estimated?.[hexId]?.value;
+      if (travelTime === undefined || isInStops(hiddenBands, travelTime)) return [];
+      // Hexes wholly on land (or all sea, which keeps its data visible) are drawn whole
+      const landBoundary = clipRegion ? getHexLandBoundary(hexId, clipRegion) : null;
+      const geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon =
+        landBoundary && landBoundary.length > 0
+          ? {
+              type: 'MultiPolygon',
+              coordinates: landBoundary.map((rings) => rings.map((ring) => ring.map(([lat, lng]) => [lng, lat]))),
+            }
+          : {
+              type: 'Polygon',
+              // GeoJSON uses [lng, lat] order
+              coordinates: [getHexBoundary(hexId).map(([lat, lng]) => [lng, lat])],
+            };
 
-      return {
-        type: 'Feature' as const,
-        properties: {
-          hexId,
-          travelTime,
+      return [
+        {
+          type: 'Feature' as const,
+          properties: {
+            hexId,
+            travelTime,
+            estimated: scores[hexId] === undefined,
+          },
+          geometry,
         },
-        geometry: {
-          type: 'Polygon' as const,
-          // GeoJSON uses [lng, lat] order
-          coordinates: [boundary.map(([lat, lng]) => [lng, lat])],
-        },
-      };
+      ];
     });
 
     const geojson: GeoJSON.FeatureCollection = {
@@ -56,22 +117,57 @@ export function HexLayer({ hexIds, scores, onHexHover, onHexClick }: HexLayerPro
     // Create layer
     const layer = L.geoJSON(geojson, {
       style: (feature) => {
-        const travelTime = feature?.properties?.travelTime ?? 60;
-        const color = getTravelTimeColor(travelTime);
+        const travelTime = feature?.properties?.travelTime;
+        const isEstimate = feature?.properties?.estimated === true;
+        const hexId = feature?.properties?.hexId;
+        const color = dataAges
+          ? getDataAgeColor(dataAges[hexId])
+          : livability
+            ? getLivabilityColor(livability[hexId])
+            : changes
+              ? getChangeColor(changes.deltas[hexId])
+              : direction === 'asymmetry'
+                ? getAsymmetryColor(travelTime, asymmetryThreshold)
+                : getTravelTimeColor(travelTime, colorScale);
         return {
           fillColor: color,
-          fillOpacity: 0.6,
-          color: color,
-          weight: 1,
+          fillOpacity: isEstimate ? 0.3 : 0.6,
+          color: isEstimate ? '#475569' : color,
+          weight: isEstimate ? 1.5 : 1,
           opacity: 0.8,
+          dashArray: isEstimate ? '4 3' : undefined,
           renderer: canvasRenderer,
         };
       },
       onEachFeature: (feature, featureLayer) => {
         const { hexId, travelTime } = feature.properties;
+        const estimate = feature.properties.estimated ? estimated?.[hexId] : undefined;
 
+        const mode = hexModes?.[hexId];
+        const age = dataAges?.[hexId];
+        const score = livability?.[hexId];
+        const delta = changes?.deltas[hexId];
+        const summary = estimate
+          ? `<strong>No route data</strong> ${
+              direction === 'round-trip'
+                ? `for the round trip to ${destinationName}`
+                : direction === 'asymmetry'
+                  ? `for both directions to ${destinationName}`
+                  : `${direction} ${destinationName}`
+            }<br>Color ${formatEstimate(estimate)}`
+          : direction === 'asymmetry'
+            ? `<strong>${formatAsymmetry(travelTime)}</strong> from ${destinationName}`
+            : direction === 'round-trip'
+              ? `<strong>${formatTravelTime(travelTime)}</strong> round trip to ${destinationName}`
+              : `<strong>${formatTravelTime(travelTime)}</strong> ${direction} ${destinationName}`;
         featureLayer.bindTooltip(
-          `<strong>${formatTravelTime(travelTime)}</strong> to city center`,
+          summary +
+            (mode ? ` by ${getTravelModeLabel(mode).toLowerCase()}` : '') +
+            (dataAges ? `<br>${age === undefined ? 'Fetch time unknown' : `Fetched ${formatDataAge(age)}`}` : '') +
+            (livability ? `<br>${score === undefined ? 'No livability data' : `Livability ${score}/100`}` : '') +
+            (changes
+              ? `<br>${delta === undefined ? `Not in ${changes.baseline}` : `${formatChange(delta)} than ${changes.baseline}`}`
+              : ''),
           { sticky: true }
         );
 
@@ -91,7 +187,24 @@ export function HexLayer({ hexIds, scores, onHexHover, onHexClick }: HexLayerPro
         map.removeLayer(layerRef.current);
       }
     };
-  }, [hexIds, scores, map, onHexHover, onHexClick]);
+  }, [
+    hexIds,
+    scores,
+    estimated,
+    destinationName,
+    hexModes,
+    dataAges,
+    livability,
+    changes,
+    direction,
+    asymmetryThreshold,
+    colorScale,
+    hiddenBands,
+    clipRegion,
+    map,
+    onHexHover,
+    onHexClick,
+  ]);
 
   return null;
 }
@@ -1,14 +1,61 @@
-import { formatTravelTime } from '../utils/scoring';
-import { getTravelTimeColor } from '../utils/colors';
+import {
+  formatDataAge,
+  formatItinerary,
+  formatTravelTime,
+  type DepartureCoverage,
+  type ItineraryDetails,
+} from '../utils/scoring';
+import { getLivabilityColor, getTravelTimeColor, NO_RETURN_COLOR } from '../utils/colors';
+import type { ColorScale } from '../utils/colorscales';
+import { formatChange } from '../utils/diff';
+import type { LivabilityBreakdown } from '../utils/livability';
+import { formatEstimate, type EstimatedScore } from '../utils/gapfill';
+import { getTravelModeLabel, type TravelMode } from '../utils/modes';
 
 interface InfoPanelProps {
   hexId: string | null;
   travelTime: number | null;
   resolution: number;
   hexCount: number;
+  destinationName: string;
+  fastestMode?: TravelMode | null;
+  itinerary?: ItineraryDetails | null;
+  // Set when only some of the sampled departures to the destination had a route
+  coverage?: DepartureCoverage | null;
+  // Days since the hex was fetched (the oldest child for aggregated hexes)
+  dataAge?: number | null;
+  // Trip back from the destination; minutes is null when there is no route back
+  returnTrip?: { minutes: number | null; window: string | null } | null;
+  // How child hexes were combined, when the map shows aggregated hexes
+  aggregation?: string | null;
+  // Composite livability score and what each indicator adds to it
+  livability?: LivabilityBreakdown | null;
+  // Set for hexes without data for the map's view, whose color is estimated from neighbours;
+  // label names the view, e.g. "Round trip to Pasila"
+  estimate?: { label: string; score: EstimatedScore } | null;
+  // Minutes in a baseline dataset and now, when comparing datasets (null when missing from one)
+  comparison?: { baseline: string; before: number | null; after: number | null } | null;
+  // Scale the one-way travel times are colored with
+  colorScale?: ColorScale | null;
 }
 
-export function InfoPanel({ hexId, travelTime, resolution, hexCount }: InfoPanelProps) {
+export function InfoPanel({
+  hexId,
+  travelTime,
+  resolution,
+  hexCount,
+  destinationName,
+  fastestMode = null,
+  itinerary = null,
+  coverage = null,
+  dataAge = null,
+  returnTrip = null,
+  aggregation = null,
+  livability = null,
+  estimate = null,
+  comparison = null,
+  colorScale = null,
+}: InfoPanelProps) {
   return (
     <div
       style={{
@@ -35,22 +82,115 @@ export function InfoPanel({ hexId, travelTime, resolution, hexCount }: InfoPanel
         }}
       >
         H3 Resolution: {resolution} • {hexCount.toLocaleString()} hexes
+        {aggregation && <div style={{ marginTop: '2px' }}>Child hexes combined by: {aggregation}</div>}
       </div>
 
-      {hexId && travelTime !== null ? (
+      {hexId && (travelTime !== null || estimate) ? (
         <>
           <div style={{ fontWeight: 600, marginBottom: '8px' }}>Hex Details</div>
-          <div style={{ marginBottom: '6px' }}>
-            <span style={{ color: '#666' }}>Travel time: </span>
-            <span
-              style={{
-                fontWeight: 600,
-                color: getTravelTimeColor(travelTime),
-              }}
-            >
-              {formatTravelTime(travelTime)}
-            </span>
-          </div>
+          {travelTime !== null && (
+            <div style={{ marginBottom: '6px' }}>
+              <span style={{ color: '#666' }}>Travel time to {destinationName}: </span>
+              <span
+                style={{
+                  fontWeight: 600,
+                  color: getTravelTimeColor(travelTime, colorScale),
+                }}
+              >
+                {formatTravelTime(travelTime)}
+              </span>
+            </div>
+          )}
+          {coverage && (
+            <div style={{ marginBottom: '6px', fontSize: '11px', color: '#666' }}>
+              Route at {coverage.routed} of {coverage.departures} departures
+            </div>
+          )}
+          {estimate && (
+            <div style={{ marginBottom: '6px' }}>
+              <span style={{ color: '#666' }}>{estimate.label}: </span>
+              <span style={{ fontStyle: 'italic' }}>No route data, {formatEstimate(estimate.score)}</span>
+            </div>
+          )}
+          {returnTrip && (
+            <>
+              <div style={{ marginBottom: '6px' }}>
+                <span style={{ color: '#666' }}>
+                  Travel time from {destinationName}
+                  {returnTrip.window ? ` (leaving ${returnTrip.window})` : ''}:{' '}
+                </span>
+                {returnTrip.minutes !== null ? (
+                  <span style={{ fontWeight: 600, color: getTravelTimeColor(returnTrip.minutes, colorScale) }}>
+                    {formatTravelTime(returnTrip.minutes)}
+                  </span>
+                ) : (
+                  <span style={{ fontWeight: 600, color: NO_RETURN_COLOR }}>No route back</span>
+                )}
+              </div>
+              {returnTrip.minutes !== null && travelTime !== null && (
+                <div style={{ marginBottom: '6px' }}>
+                  <span style={{ color: '#666' }}>Round trip: </span>
+                  <span style={{ fontWeight: 600 }}>{formatTravelTime(travelTime + returnTrip.minutes)}</span>
+                </div>
+              )}
+            </>
+          )}
+          {comparison && (
+            <div style={{ marginBottom: '6px' }}>
+              <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', columnGap: '12px' }}>
+                <span style={{ color: '#666', fontSize: '11px' }}>{comparison.baseline}</span>
+                <span style={{ color: '#666', fontSize: '11px' }}>Now</span>
+                {[comparison.before, comparison.after].map((minutes, i) => (
+                  <span key={i} style={{ fontWeight: 600 }}>
+                    {minutes !== null && Number.isFinite(minutes) ? formatTravelTime(minutes) : 'No data'}
+                  </span>
+                ))}
+              </div>
+              {comparison.before !== null &&
+                comparison.after !== null &&
+                Number.isFinite(comparison.after - comparison.before) && (
+                <div>
+                  <span style={{ color: '#666' }}>Change: </span>
+                  <span style={{ fontWeight: 600 }}>
+                    {formatChange(comparison.after - comparison.before)}
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+          {livability && (
+            <div style={{ marginBottom: '6px' }}>
+              <span style={{ color: '#666' }}>Livability: </span>
+              <span style={{ fontWeight: 600, color: getLivabilityColor(livability.score) }}>
+                {Math.round(livability.score)}/100
+              </span>
+              {livability.contributions.map((c) => (
+                <div key={c.id} style={{ fontSize: '11px', color: '#666', display: 'flex', gap: '8px' }}>
+                  <span style={{ flex: 1 }}>
+                    {c.label}: {c.value} ({Math.round(c.normalized)}/100 × {Math.round(c.share * 100)}%)
+                  </span>
+                  <span style={{ fontWeight: 600, color: '#333' }}>+{c.points.toFixed(1)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {fastestMode && (
+            <div style={{ marginBottom: '6px' }}>
+              <span style={{ color: '#666' }}>Fastest mode: </span>
+              <span style={{ fontWeight: 600 }}>{getTravelModeLabel(fastestMode)}</span>
+            </div>
+          )}
+          {itinerary && (
+            <div style={{ marginBottom: '6px', color: '#444', maxWidth: '260px' }}>
+              {formatItinerary(itinerary)}
+            </div>
+          )}
+          {dataAge !== null && (
+            <div style={{ marginBottom: '6px' }}>
+              <span style={{ color: '#666' }}>Data fetched: </span>
+              <span>{formatDataAge(dataAge)}</span>
+            </div>
+          )}
           <div style={{ fontSize: '11px', color: '#999', wordBreak: 'break-all' }}>
             ID: {hexId}
           </div>
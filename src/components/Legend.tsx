@@ -1,6 +1,46 @@
 import { COLOR_STOPS } from '../utils/colors';
+import type { ColorScale } from '../utils/colorscales';
+
+interface LegendProps {
+  title: string;
+  subtitle: string;
+  stops?: { color: string; label: string }[];
+  // Travel time scale; continuous scales are drawn as a ramp instead of bands
+  scale?: ColorScale | null;
+  // Summary lines shown below the color scale
+  notes?: string[];
+  // Labels of bands switched off on the map; bands can be clicked when a change handler is given
+  hiddenBands?: string[];
+  onHiddenBandsChange?: (labels: string[]) => void;
+  // Hexes and buildings in view per band, in the order of the bands
+  bandCounts?: { hexes: number; buildings: number }[];
+}
+
+export function Legend({
+  title,
+  subtitle,
+  stops = COLOR_STOPS,
+  scale = null,
+  notes = [],
+  hiddenBands = [],
+  onHiddenBandsChange,
+  bandCounts,
+}: LegendProps) {
+  const bands = scale && !scale.continuous ? scale.stops : stops;
+  const labels = bands.map((stop) => stop.label);
+
+  const toggleBand = (label: string) => {
+    onHiddenBandsChange?.(
+      hiddenBands.includes(label) ? hiddenBands.filter((hidden) => hidden !== label) : [...hiddenBands, label]
+    );
+  };
+
+  // Show only this band, or every band again when it already is the only one shown
+  const isolateBand = (label: string) => {
+    const isolated = labels.every((other) => (other === label) !== hiddenBands.includes(other));
+    onHiddenBandsChange?.(isolated ? [] : labels.filter((other) => other !== label));
+  };
 
-export function Legend() {
   return (
     <div
       style={{
@@ -16,31 +56,101 @@ export function Legend() {
         fontSize: '13px',
       }}
     >
-      <div style={{ fontWeight: 600, marginBottom: '8px' }}>
-        Travel Time to City Center
+      <div style={{ fontWeight: 600, marginBottom: '2px' }}>
+        {title}
       </div>
-      {COLOR_STOPS.map((stop) => (
-        <div
-          key={stop.label}
-          style={{
-            display: 'flex',
-            alignItems: 'center',
-            marginBottom: '4px',
-          }}
-        >
+      <div style={{ fontSize: '11px', color: '#666', marginBottom: '8px' }}>
+        {subtitle}
+      </div>
+      {scale?.continuous ? (
+        <div style={{ width: '160px', marginBottom: '4px' }}>
           <div
             style={{
-              width: '20px',
               height: '14px',
-              backgroundColor: stop.color,
-              marginRight: '8px',
               borderRadius: '2px',
               opacity: 0.7,
+              background: `linear-gradient(to right, ${scale.colors.join(', ')})`,
             }}
           />
-          <span>{stop.label}</span>
+          <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', marginTop: '2px' }}>
+            <span>{scale.domain[0]} min</span>
+            <span>{scale.domain[1]} min</span>
+          </div>
+        </div>
+      ) : bands.map((stop, i) => {
+        const hidden = hiddenBands.includes(stop.label);
+        const counts = bandCounts?.[i];
+        return (
+          <div
+            key={stop.label}
+            onClick={onHiddenBandsChange ? () => toggleBand(stop.label) : undefined}
+            title={onHiddenBandsChange ? `Click to ${hidden ? 'show' : 'hide'} ${stop.label}` : undefined}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              marginBottom: '4px',
+              cursor: onHiddenBandsChange ? 'pointer' : undefined,
+              opacity: hidden ? 0.4 : 1,
+            }}
+          >
+            <div
+              style={{
+                width: '20px',
+                height: '14px',
+                backgroundColor: hidden ? 'transparent' : stop.color,
+                border: hidden ? `1px solid ${stop.color}` : undefined,
+                boxSizing: 'border-box',
+                marginRight: '8px',
+                borderRadius: '2px',
+                opacity: 0.7,
+              }}
+            />
+            <span style={{ textDecoration: hidden ? 'line-through' : undefined }}>{stop.label}</span>
+            {counts && (
+              <span style={{ marginLeft: 'auto', paddingLeft: '12px', fontSize: '11px', color: '#666' }}>
+                {counts.hexes.toLocaleString()} hexes · {counts.buildings.toLocaleString()} buildings
+              </span>
+            )}
+            {onHiddenBandsChange && (
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  isolateBand(stop.label);
+                }}
+                title={`Show only ${stop.label}`}
+                style={{
+                  marginLeft: counts ? '6px' : 'auto',
+                  border: 'none',
+                  background: 'none',
+                  color: '#3b82f6',
+                  cursor: 'pointer',
+                  fontSize: '11px',
+                  padding: 0,
+                }}
+              >
+                only
+              </button>
+            )}
+          </div>
+        );
+      })}
+      {onHiddenBandsChange && hiddenBands.length > 0 && (
+        <button
+          type="button"
+          onClick={() => onHiddenBandsChange([])}
+          style={{ border: 'none', background: 'none', color: '#3b82f6', cursor: 'pointer', fontSize: '11px', padding: 0 }}
+        >
+          Show all bands
+        </button>
+      )}
+      {notes.length > 0 && (
+        <div style={{ marginTop: '8px', paddingTop: '6px', borderTop: '1px solid #eee', fontSize: '11px', color: '#444' }}>
+          {notes.map((note) => (
+            <div key={note}>{note}</div>
+          ))}
         </div>
-      ))}
+      )}
     </div>
   );
 }
@@ -1,19 +1,109 @@
 import { useState, useMemo, useCallback, useEffect } from 'react';
 import L from 'leaflet';
-import { MapContainer, TileLayer, useMapEvents } from 'react-leaflet';
+import { MapContainer, TileLayer, useMap, useMapEvents } from 'react-leaflet';
 import { HexLayer } from './HexLayer';
-import { BuildingsLayer } from './BuildingsLayer';
+import { BuildingsLayer, type Building } from './BuildingsLayer';
 import { Legend } from './Legend';
 import { InfoPanel } from './InfoPanel';
 import { TravelTimeFilter, type TravelTimeRange } from './TravelTimeFilter';
-import { generateHexesInBounds, CITY_CENTER, getH3ResolutionForZoom, MapBounds, getBuildingHexIds } from '../utils/h3';
-import { HexScoreMap, aggregateScoresToResolution } from '../utils/scoring';
-import hexScoresData from '../data/hex-scores.json';
+import { DisplayOptions } from './DisplayOptions';
+import { WeightsPanel } from './WeightsPanel';
+import { ViewportStats } from './ViewportStats';
+import {
+  generateHexesInBounds,
+  BASE_H3_RESOLUTION,
+  getH3ResolutionForZoom,
+  MapBounds,
+  getBuildingHexIds,
+} from '../utils/h3';
+import {
+  aggregateAgesToResolution,
+  aggregateScoresToResolution,
+  DEFAULT_AGGREGATION,
+  formatAggregation,
+  getDataAges,
+  getItineraries,
+  getPartialCoverage,
+  getStatisticScores,
+  type ItineraryDetails,
+  TRAVEL_TIME_STATISTICS,
+  type Aggregation,
+  type AggregationMethod,
+  type HexScoreMap,
+  type TravelTimeStatistic,
+} from '../utils/scoring';
+import {
+  DEFAULT_DESTINATION_ID,
+  getAvailableDestinations,
+  getDestination,
+  getComparisonDataset,
+  getComparisonDatasets,
+  getDestinationDataset,
+} from '../utils/destinations';
+import {
+  FASTEST_MODE,
+  getAvailableModes,
+  getFastestModeScores,
+  getTravelModeLabel,
+  type ModeDataset,
+  type TravelMode,
+  type TravelModeView,
+} from '../utils/modes';
+import { DEFAULT_REGION_ID, getRegion, REGIONS, type RegionProfile } from '../utils/regions';
+import {
+  CHANGE_STOPS,
+  DATA_AGE_STOPS,
+  getAsymmetryStops,
+  LIVABILITY_STOPS,
+  NO_LIVABILITY_COLOR,
+  NO_RETURN_COLOR,
+  NOT_COMPARED_COLOR,
+  UNKNOWN_AGE_COLOR,
+  type HexColorBy,
+} from '../utils/colors';
+import {
+  combineDirections,
+  DEFAULT_ASYMMETRY_THRESHOLD,
+  getMissingReturns,
+  getReturnScores,
+  getReturnWindow,
+  hasReturnTrips,
+  type DirectionalScores,
+  type TravelDirection,
+} from '../utils/directions';
+import { diffScores, formatChange, summarizeDiff } from '../utils/diff';
+import {
+  buildColorScale,
+  DEFAULT_COLOR_SCALE_CONFIG,
+  FIXED_BREAKS,
+  type ColorScaleConfig,
+} from '../utils/colorscales';
+import { computeViewportStats } from '../utils/viewport';
+import {
+  DEFAULT_GAP_FILL_METHOD,
+  DEFAULT_GAP_FILL_RADIUS,
+  fillGaps,
+  type GapFillMethod,
+} from '../utils/gapfill';
+import {
+  computeLivabilityScores,
+  getBuildingIndicators,
+  getIndicatorWeight,
+  getLivabilityBreakdown,
+  getTravelTimeIndicator,
+  normalizeIndicator,
+  type IndicatorWeights,
+} from '../utils/livability';
 import buildingsData from '../data/buildings.json';
 
 import 'leaflet/dist/leaflet.css';
 
-const baseHexScores: HexScoreMap = hexScoresData;
+const availableDestinations = getAvailableDestinations();
+
+const buildings = (buildingsData as { features: Building[] }).features;
+
+// Region the app opens with; set VITE_REGION to build the app for another region
+const initialRegion = getRegion(import.meta.env.VITE_REGION ?? DEFAULT_REGION_ID);
 
 interface MapEventsHandlerProps {
   onZoomChange: (zoom: number) => void;
@@ -52,47 +142,311 @@ function MapEventsHandler({ onZoomChange, onBoundsChange }: MapEventsHandlerProp
   return null;
 }
 
-const INITIAL_ZOOM = 12;
+// Move the map to a region when it is selected
+function RegionView({ region }: { region: RegionProfile }) {
+  const map = useMap();
+
+  useEffect(() => {
+    map.setView([region.center.lat, region.center.lng], region.zoom);
+  }, [map, region]);
+
+  return null;
+}
+
+/**
+ * Scores shown for a view of a destination's datasets: the chosen direction,
+ * the mode that won each hex in fastest mode, and both trip directions
+ */
+function getViewScores(
+  modeDataset: ModeDataset,
+  availableModes: TravelMode[],
+  activeMode: TravelModeView,
+  activeDirection: TravelDirection,
+  statistic: TravelTimeStatistic,
+  h3Resolution: number,
+  aggregation: Aggregation
+): { hexScores: HexScoreMap; hexModes: Record<string, TravelMode> | null; hexDirections: DirectionalScores } {
+  const directionsForMode = (mode: TravelMode): DirectionalScores => {
+    const dataset = modeDataset[mode] ?? {};
+    return {
+      to: aggregateScoresToResolution(getStatisticScores(dataset, statistic), h3Resolution, aggregation),
+      from: aggregateScoresToResolution(getReturnScores(dataset, statistic), h3Resolution, aggregation),
+      noReturn: aggregateScoresToResolution(getMissingReturns(dataset, statistic), h3Resolution),
+    };
+  };
+
+  if (activeMode === FASTEST_MODE) {
+    // Compare modes at the display resolution so each hex reports its own best mode.
+    // Asymmetry compares both directions of the mode that is fastest to the destination.
+    const byMode = Object.fromEntries(availableModes.map((mode) => [mode, directionsForMode(mode)]));
+    const fastest = getFastestModeScores(
+      Object.fromEntries(
+        availableModes.map((mode) => [
+          mode,
+          combineDirections(byMode[mode], activeDirection === 'asymmetry' ? 'to' : activeDirection),
+        ])
+      )
+    );
 
-// Initial bounds roughly covering Helsinki (will be updated on map load)
-const INITIAL_BOUNDS: MapBounds = {
-  north: 60.25,
-  south: 60.10,
-  east: 25.05,
-  west: 24.85,
-};
+    const directions: DirectionalScores = { to: {}, from: {}, noReturn: {} };
+    for (const [hexId, mode] of Object.entries(fastest.modes)) {
+      for (const key of ['to', 'from', 'noReturn'] as const) {
+        const value = byMode[mode][key][hexId];
+        if (value !== undefined) directions[key][hexId] = value;
+      }
+    }
+    return {
+      hexScores: activeDirection === 'asymmetry' ? combineDirections(directions, 'asymmetry') : fastest.scores,
+      hexModes: fastest.modes,
+      hexDirections: directions,
+    };
+  }
+
+  const directions = directionsForMode(activeMode);
+  return { hexScores: combineDirections(directions, activeDirection), hexModes: null, hexDirections: directions };
+}
 
 export function Map() {
   const [hoveredHex, setHoveredHex] = useState<string | null>(null);
   const [hoveredTravelTime, setHoveredTravelTime] = useState<number | null>(null);
   const [selectedHex, setSelectedHex] = useState<string | null>(null);
   const [selectedTravelTime, setSelectedTravelTime] = useState<number | null>(null);
-  const [zoom, setZoom] = useState(INITIAL_ZOOM);
-  const [bounds, setBounds] = useState<MapBounds>(INITIAL_BOUNDS);
+  const [zoom, setZoom] = useState(initialRegion.zoom);
+  // Region bounds until the map reports its viewport on load
+  const [bounds, setBounds] = useState<MapBounds>(initialRegion.bounds);
   const [travelTimeFilter, setTravelTimeFilter] = useState<TravelTimeRange | null>(null);
   const [buildingCount, setBuildingCount] = useState(0);
+  const [regionId, setRegionId] = useState(initialRegion.id);
+  const [destinationId, setDestinationId] = useState(
+    availableDestinations.some((d) => d.id === initialRegion.defaultDestinationId)
+      ? initialRegion.defaultDestinationId
+      : DEFAULT_DESTINATION_ID
+  );
+  const [statistic, setStatistic] = useState<TravelTimeStatistic>('median');
+  const [travelMode, setTravelMode] = useState<TravelModeView>('transit');
+  const [colorBy, setColorBy] = useState<HexColorBy>('travel-time');
+  const [direction, setDirection] = useState<TravelDirection>('to');
+  const [asymmetryThreshold, setAsymmetryThreshold] = useState(DEFAULT_ASYMMETRY_THRESHOLD);
+  const [clipToCoastline, setClipToCoastline] = useState(true);
+  const [aggregationMethod, setAggregationMethod] = useState<AggregationMethod>(DEFAULT_AGGREGATION.method);
+  const [aggregationPercentile, setAggregationPercentile] = useState(DEFAULT_AGGREGATION.percentile);
+  const [livabilityWeights, setLivabilityWeights] = useState<IndicatorWeights>({});
+  const [gapFillMethod, setGapFillMethod] = useState<GapFillMethod>(DEFAULT_GAP_FILL_METHOD);
+  const [gapFillRadius, setGapFillRadius] = useState(DEFAULT_GAP_FILL_RADIUS);
+  const [colorScaleConfig, setColorScaleConfig] = useState<ColorScaleConfig>(DEFAULT_COLOR_SCALE_CONFIG);
+  // Labels of the travel time bands switched off in the legend
+  const [hiddenBands, setHiddenBands] = useState<string[]>([]);
+  // Key of the dataset to compare against (the first one when unset)
+  const [baseline, setBaseline] = useState<string | null>(null);
 
+  const region = getRegion(regionId);
+  const destination = getDestination(destinationId);
+  const statisticLabel = TRAVEL_TIME_STATISTICS.find((s) => s.id === statistic)!.label;
   const h3Resolution = getH3ResolutionForZoom(zoom);
 
   // Compute hex IDs that contain buildings (at all resolutions)
   const buildingHexes = useMemo(() => {
-    return getBuildingHexIds((buildingsData as any).features, [6, 7, 8, 9]);
+    return getBuildingHexIds(buildings, [6, 7, 8, 9]);
   }, []);
 
+  // How child hexes are combined when zoomed out
+  const aggregation = useMemo<Aggregation>(
+    () => ({
+      method: aggregationMethod,
+      percentile: aggregationPercentile,
+      buildingCounts: buildingHexes.get(BASE_H3_RESOLUTION),
+    }),
+    [aggregationMethod, aggregationPercentile, buildingHexes]
+  );
+
+  const modeDataset = useMemo(() => getDestinationDataset(destination.id), [destination.id]);
+
+  // Earlier datasets of the destination and those of other destinations; the change view needs at least one
+  const baselines = useMemo(() => getComparisonDatasets(destination.id), [destination.id]);
+  const activeBaseline = baselines.find((d) => d.key === baseline) ?? baselines[0] ?? null;
+  const activeColorBy: HexColorBy = colorBy === 'change' && activeBaseline === null ? 'travel-time' : colorBy;
+  const availableModes = useMemo(() => getAvailableModes(modeDataset), [modeDataset]);
+
+  // Fall back to the first mode with data if the destination lacks the chosen one
+  const activeMode: TravelModeView =
+    travelMode === FASTEST_MODE || availableModes.includes(travelMode)
+      ? travelMode
+      : availableModes[0] ?? 'transit';
+  const modeLabel = activeMode === FASTEST_MODE ? 'Fastest mode' : getTravelModeLabel(activeMode);
+
+  // Trips back from the destination exist only when fetched with a return window
+  const returnTripsAvailable = useMemo(
+    () => availableModes.some((mode) => hasReturnTrips(modeDataset[mode] ?? {})),
+    [modeDataset, availableModes]
+  );
+  const activeDirection: TravelDirection = returnTripsAvailable ? direction : 'to';
+  const returnWindow = useMemo(() => {
+    for (const mode of availableModes) {
+      const window = getReturnWindow(modeDataset[mode] ?? {});
+      if (window) return window;
+    }
+    return null;
+  }, [modeDataset, availableModes]);
+
   // Aggregate scores first (this determines which hexes have data)
-  const hexScores = useMemo(() => {
-    return aggregateScoresToResolution(baseHexScores, h3Resolution);
-  }, [h3Resolution]);
+  const { hexScores, hexModes, hexDirections } = useMemo(
+    () => getViewScores(modeDataset, availableModes, activeMode, activeDirection, statistic, h3Resolution, aggregation),
+    [modeDataset, availableModes, activeMode, activeDirection, statistic, h3Resolution, aggregation]
+  );
+
+  // Baseline values of the same view and the change since then, when comparing datasets
+  const baselineScores = useMemo(() => {
+    if (activeColorBy !== 'change' || activeBaseline === null) return null;
+    const dataset = getComparisonDataset(activeBaseline.key);
+    return getViewScores(
+      dataset,
+      getAvailableModes(dataset),
+      activeMode,
+      activeDirection,
+      statistic,
+      h3Resolution,
+      aggregation
+    ).hexScores;
+  }, [activeColorBy, activeBaseline, activeMode, activeDirection, statistic, h3Resolution, aggregation]);
+  const hexChanges = useMemo(
+    () => (baselineScores ? diffScores(baselineScores, hexScores) : null),
+    [baselineScores, hexScores]
+  );
+  const changeSummary = useMemo(
+    () => (hexChanges ? summarizeDiff(hexChanges, buildingHexes.get(h3Resolution)) : null),
+    [hexChanges, buildingHexes, h3Resolution]
+  );
+
+  // Route breakdowns only exist for base resolution hexes; aggregated hexes have none
+  const hexItineraries = useMemo(() => {
+    const itineraries: Record<string, ItineraryDetails> = {};
+    if (h3Resolution !== BASE_H3_RESOLUTION) return itineraries;
+    if (activeMode !== FASTEST_MODE) return getItineraries(modeDataset[activeMode] ?? {});
+
+    // Fastest mode view: show the route of the mode that won each hex
+    const byMode = Object.fromEntries(
+      availableModes.map((mode) => [mode, getItineraries(modeDataset[mode] ?? {})])
+    );
+    for (const [hexId, mode] of Object.entries(hexModes ?? {})) {
+      const itinerary = byMode[mode]?.[hexId];
+      if (itinerary) itineraries[hexId] = itinerary;
+    }
+    return itineraries;
+  }, [modeDataset, availableModes, activeMode, hexModes, h3Resolution]);
+
+  // Hexes where only some sampled departures had a route; base resolution only, like the routes
+  const hexCoverage = useMemo(() => {
+    if (h3Resolution !== BASE_H3_RESOLUTION) return {};
+    if (activeMode !== FASTEST_MODE) return getPartialCoverage(modeDataset[activeMode] ?? {});
+    const byMode = Object.fromEntries(
+      availableModes.map((mode) => [mode, getPartialCoverage(modeDataset[mode] ?? {})])
+    );
+    return Object.fromEntries(
+      Object.entries(hexModes ?? {}).flatMap(([hexId, mode]) => {
+        const coverage = byMode[mode]?.[hexId];
+        return coverage ? [[hexId, coverage]] : [];
+      })
+    );
+  }, [modeDataset, availableModes, activeMode, hexModes, h3Resolution]);
+
+  // Days since each hex was fetched; in fastest mode the oldest of the modes counts
+  const hexDataAges = useMemo(() => {
+    const modes = activeMode === FASTEST_MODE ? availableModes : [activeMode];
+    const ages: Record<string, number> = {};
+    for (const mode of modes) {
+      const modeAges = aggregateAgesToResolution(getDataAges(modeDataset[mode] ?? {}), h3Resolution);
+      for (const [hexId, age] of Object.entries(modeAges)) {
+        ages[hexId] = Math.max(ages[hexId] ?? 0, age);
+      }
+    }
+    return ages;
+  }, [modeDataset, availableModes, activeMode, h3Resolution]);
 
   // Only show hexes that have buildings in them
-  const hexIds = useMemo(() => {
-    const boundsHexes = generateHexesInBounds(h3Resolution, bounds);
-    const withScores = boundsHexes.filter((hexId) => hexId in hexScores);
+  const { hexIds, hexEstimates } = useMemo(() => {
+    const boundsHexes = generateHexesInBounds(h3Resolution, bounds, region);
     // Filter to only hexes that contain buildings
-    const buildingHexSet = buildingHexes.get(h3Resolution);
-    if (!buildingHexSet) return withScores;
-    return withScores.filter((hexId) => buildingHexSet.has(hexId));
-  }, [h3Resolution, bounds, hexScores, buildingHexes]);
+    const buildingCounts = buildingHexes.get(h3Resolution);
+    const withBuildings = buildingCounts ? boundsHexes.filter((hexId) => buildingCounts.has(hexId)) : boundsHexes;
+    // Hexes without data are estimated from their neighbours, or left out
+    const estimates = fillGaps(withBuildings, hexScores, gapFillMethod, gapFillRadius);
+    return {
+      hexIds: withBuildings.filter((hexId) => hexId in hexScores || hexId in estimates),
+      hexEstimates: estimates,
+    };
+  }, [h3Resolution, bounds, region, hexScores, buildingHexes, gapFillMethod, gapFillRadius]);
+
+  // Minutes shown by the travel time colors: outbound times while comparing directions
+  const travelMinutes = activeDirection === 'asymmetry' ? hexDirections.to : hexScores;
+
+  // Breaks are fitted to all hexes of the destination rather than those in view, so panning keeps the colors
+  const travelScale = useMemo(
+    () =>
+      buildColorScale(
+        colorScaleConfig,
+        Object.values(travelMinutes),
+        activeDirection === 'round-trip' ? FIXED_BREAKS.map((b) => b * 2) : FIXED_BREAKS
+      ),
+    [colorScaleConfig, travelMinutes, activeDirection]
+  );
+
+  // Minutes the bands are counted and hidden by: measured times, then estimates, as HexLayer colors them.
+  // Estimates compare directions in the asymmetry view, where bands are not selectable
+  const bandMinutes = useMemo(() => {
+    if (activeDirection === 'asymmetry') return travelMinutes;
+    const minutes: HexScoreMap = {};
+    for (const [hexId, estimate] of Object.entries(hexEstimates)) minutes[hexId] = estimate.value;
+    return { ...minutes, ...travelMinutes };
+  }, [activeDirection, travelMinutes, hexEstimates]);
+
+  // Bands can be switched off while the map shows banded travel times; labels of other bands are ignored
+  const bandsSelectable = activeColorBy === 'travel-time' && activeDirection !== 'asymmetry' && !travelScale.continuous;
+  const hiddenStops = useMemo(
+    () => (bandsSelectable ? travelScale.stops.filter((stop) => hiddenBands.includes(stop.label)) : []),
+    [bandsSelectable, travelScale, hiddenBands]
+  );
+  const activeHiddenBands = hiddenStops.map((stop) => stop.label);
+  const buildingHiddenBands = useMemo(
+    () => (hiddenStops.length > 0 ? { stops: hiddenStops, scores: bandMinutes } : null),
+    [hiddenStops, bandMinutes]
+  );
+
+  // Travel times over the hexes in view, estimated hexes included so the counts match what can be hidden
+  const viewportStats = useMemo(
+    () => computeViewportStats(hexIds, bandMinutes, buildingHexes.get(h3Resolution), travelScale.stops),
+    [hexIds, bandMinutes, buildingHexes, h3Resolution, travelScale]
+  );
+
+  // Livability indicators are only computed while the map is colored by them
+  const livabilityIndicators = useMemo(() => {
+    if (activeColorBy !== 'livability') return [];
+    const travelTimes = availableDestinations.map((d) =>
+      getTravelTimeIndicator(
+        d,
+        getDestinationDataset(d.id),
+        activeMode,
+        statistic,
+        h3Resolution,
+        aggregation,
+        d.id === destination.id
+      )
+    );
+    return [...travelTimes, ...getBuildingIndicators(buildings, h3Resolution)];
+  }, [activeColorBy, activeMode, statistic, h3Resolution, aggregation, destination.id]);
+
+  const normalizedIndicators = useMemo(
+    () => Object.fromEntries(livabilityIndicators.map((indicator) => [indicator.id, normalizeIndicator(indicator)])),
+    [livabilityIndicators]
+  );
+
+  const hexLivability = useMemo(
+    () => computeLivabilityScores(hexIds, livabilityIndicators, normalizedIndicators, livabilityWeights),
+    [hexIds, livabilityIndicators, normalizedIndicators, livabilityWeights]
+  );
+
+  const handleLivabilityWeightChange = useCallback((indicatorId: string, weight: number) => {
+    setLivabilityWeights((weights) => ({ ...weights, [indicatorId]: weight }));
+  }, []);
 
   const handleZoomChange = useCallback((newZoom: number) => {
     setZoom(newZoom);
@@ -101,6 +455,48 @@ export function Map() {
     setSelectedTravelTime(null);
   }, []);
 
+  const handleRegionChange = useCallback((id: string) => {
+    const newRegion = getRegion(id);
+    setRegionId(newRegion.id);
+    // Switch to the region's own destination when there is data for it
+    if (availableDestinations.some((d) => d.id === newRegion.defaultDestinationId)) {
+      setDestinationId(newRegion.defaultDestinationId);
+    }
+    setSelectedHex(null);
+    setSelectedTravelTime(null);
+  }, []);
+
+  const handleDestinationChange = useCallback((id: string) => {
+    setDestinationId(id);
+    // Selected travel time refers to the previous destination
+    setSelectedHex(null);
+    setSelectedTravelTime(null);
+  }, []);
+
+  const handleStatisticChange = useCallback((newStatistic: TravelTimeStatistic) => {
+    setStatistic(newStatistic);
+    setSelectedHex(null);
+    setSelectedTravelTime(null);
+  }, []);
+
+  const handleTravelModeChange = useCallback((newMode: TravelModeView) => {
+    setTravelMode(newMode);
+    setSelectedHex(null);
+    setSelectedTravelTime(null);
+  }, []);
+
+  const handleDirectionChange = useCallback((newDirection: TravelDirection) => {
+    setDirection(newDirection);
+    setSelectedHex(null);
+    setSelectedTravelTime(null);
+  }, []);
+
+  const handleAggregationMethodChange = useCallback((method: AggregationMethod) => {
+    setAggregationMethod(method);
+    setSelectedHex(null);
+    setSelectedTravelTime(null);
+  }, []);
+
   const handleBoundsChange = useCallback((newBounds: MapBounds) => {
     setBounds(newBounds);
   }, []);
@@ -118,12 +514,120 @@ export function Map() {
   // Show selected hex info, or hovered hex info, or default prompt
   const displayHexId = selectedHex ?? hoveredHex;
   const displayTravelTime = selectedHex ? selectedTravelTime : hoveredTravelTime;
+  const displayMode = displayHexId && hexModes ? hexModes[displayHexId] ?? null : null;
+  const displayItinerary = displayHexId ? hexItineraries[displayHexId] ?? null : null;
+  const displayCoverage = displayHexId ? hexCoverage[displayHexId] ?? null : null;
+  const displayDataAge = displayHexId ? hexDataAges[displayHexId] ?? null : null;
+  const displayEstimate = displayHexId ? hexEstimates[displayHexId] ?? null : null;
+  const displayComparison =
+    displayHexId && baselineScores && activeBaseline
+      ? {
+          baseline: activeBaseline.label,
+          before: baselineScores[displayHexId] ?? null,
+          after: hexScores[displayHexId] ?? null,
+        }
+      : null;
+  const displayLivability =
+    displayHexId && activeColorBy === 'livability'
+      ? getLivabilityBreakdown(displayHexId, livabilityIndicators, normalizedIndicators, livabilityWeights)
+      : null;
+  // The panel always shows the measured outbound time (never an estimate), plus the way back when it was fetched
+  const displayToTime =
+    activeDirection === 'to' && !displayEstimate
+      ? displayTravelTime
+      : displayHexId ? hexDirections.to[displayHexId] ?? null : null;
+  const displayReturnTrip =
+    displayHexId && returnTripsAvailable
+      ? hexDirections.from[displayHexId] !== undefined
+        ? { minutes: hexDirections.from[displayHexId], window: returnWindow }
+        : hexDirections.noReturn[displayHexId] !== undefined
+          ? { minutes: null, window: returnWindow }
+          : null
+      : null;
+
+  const directionSubtitle = returnWindow ? ` · back ${returnWindow}` : '';
+  const weightedIndicatorCount = livabilityIndicators.filter(
+    (indicator) => getIndicatorWeight(indicator, livabilityWeights) > 0
+  ).length;
+  const viewLabel =
+    activeDirection === 'round-trip'
+      ? `Round trip to ${destination.name}`
+      : activeDirection === 'asymmetry'
+        ? `Return vs. outbound, ${destination.name}`
+        : `Travel time ${activeDirection} ${destination.name}`;
+  // Names travelMinutes, which the viewport bands and the building filter use: outbound times while comparing directions
+  const travelLabel = activeDirection === 'asymmetry' ? `Travel time to ${destination.name}` : viewLabel;
+  // Itineraries are outbound routes, shown in building popups only next to outbound minutes
+  const buildingItineraries = activeDirection === 'to' || activeDirection === 'asymmetry' ? hexItineraries : undefined;
+  const legend =
+    activeColorBy === 'change' && changeSummary && activeBaseline ? (
+      <Legend
+        title={`Change against ${activeBaseline.label}`}
+        subtitle={`${viewLabel} · ${modeLabel} · ${statisticLabel}`}
+        stops={[...CHANGE_STOPS, { color: NOT_COMPARED_COLOR, label: 'Not in both datasets' }]}
+        notes={[
+          `Improved: ${changeSummary.improved.toLocaleString()} hexes`,
+          `Worsened: ${changeSummary.worsened.toLocaleString()} hexes`,
+          `Unchanged: ${changeSummary.unchanged.toLocaleString()} hexes`,
+          `Mean change per building: ${
+            Number.isNaN(changeSummary.buildingWeightedChange)
+              ? 'n/a'
+              : formatChange(changeSummary.buildingWeightedChange)
+          }`,
+        ]}
+      />
+    ) : activeColorBy === 'livability' ? (
+      <Legend
+        title="Livability Score"
+        subtitle={`${weightedIndicatorCount} weighted indicators · ${modeLabel} · ${statisticLabel}`}
+        stops={[...LIVABILITY_STOPS, { color: NO_LIVABILITY_COLOR, label: 'No data' }]}
+      />
+    ) : activeColorBy === 'data-age' ? (
+      <Legend
+        title="Data Age"
+        subtitle={`${destination.name} · ${modeLabel}`}
+        stops={[...DATA_AGE_STOPS, { color: UNKNOWN_AGE_COLOR, label: 'Unknown' }]}
+      />
+    ) : activeDirection === 'asymmetry' ? (
+      <Legend
+        title={`Return vs. Outbound, ${destination.name}`}
+        subtitle={`${modeLabel} · ${statisticLabel}${directionSubtitle}`}
+        stops={[...getAsymmetryStops(asymmetryThreshold), { color: NO_RETURN_COLOR, label: 'No route back' }]}
+      />
+    ) : activeDirection === 'round-trip' ? (
+      <Legend
+        title={`Round Trip to ${destination.name}`}
+        subtitle={`${modeLabel} · ${statisticLabel}${directionSubtitle}`}
+        scale={travelScale}
+        hiddenBands={activeHiddenBands}
+        onHiddenBandsChange={setHiddenBands}
+        bandCounts={viewportStats.bands}
+      />
+    ) : activeDirection === 'from' ? (
+      <Legend
+        title={`Travel Time from ${destination.name}`}
+        subtitle={`${modeLabel} · ${statisticLabel}${directionSubtitle}`}
+        scale={travelScale}
+        hiddenBands={activeHiddenBands}
+        onHiddenBandsChange={setHiddenBands}
+        bandCounts={viewportStats.bands}
+      />
+    ) : (
+      <Legend
+        title={`Travel Time to ${destination.name}`}
+        subtitle={`${modeLabel} · ${statisticLabel}`}
+        scale={travelScale}
+        hiddenBands={activeHiddenBands}
+        onHiddenBandsChange={setHiddenBands}
+        bandCounts={viewportStats.bands}
+      />
+    );
 
   return (
     <div style={{ width: '100vw', height: '100vh', position: 'relative' }}>
       <MapContainer
-        center={[CITY_CENTER.lat, CITY_CENTER.lng]}
-        zoom={INITIAL_ZOOM}
+        center={[initialRegion.center.lat, initialRegion.center.lng]}
+        zoom={initialRegion.zoom}
         style={{ width: '100%', height: '100%' }}
       >
         <TileLayer
@@ -131,18 +635,33 @@ export function Map() {
           url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
         />
         <MapEventsHandler onZoomChange={handleZoomChange} onBoundsChange={handleBoundsChange} />
+        <RegionView region={region} />
         <HexLayer
           hexIds={hexIds}
           scores={hexScores}
+          estimated={hexEstimates}
+          destinationName={destination.name}
+          hexModes={hexModes}
+          dataAges={activeColorBy === 'data-age' ? hexDataAges : null}
+          livability={activeColorBy === 'livability' ? hexLivability : null}
+          changes={hexChanges && activeBaseline ? { deltas: hexChanges, baseline: activeBaseline.label } : null}
+          direction={activeDirection}
+          asymmetryThreshold={asymmetryThreshold}
+          clipRegion={clipToCoastline ? region : null}
+          colorScale={travelScale}
+          hiddenBands={hiddenStops}
           onHexHover={handleHexHover}
           onHexClick={handleHexClick}
         />
         <BuildingsLayer
-          buildings={(buildingsData as any).features}
+          buildings={buildings}
           minZoom={14}
-          hexScores={hexScores}
+          hexScores={travelMinutes}
+          scoreLabel={travelLabel}
+          hexItineraries={buildingItineraries}
           h3Resolution={h3Resolution}
           travelTimeFilter={travelTimeFilter}
+          hiddenBands={buildingHiddenBands}
           onVisibleBuildingCountChange={setBuildingCount}
         />
       </MapContainer>
@@ -152,14 +671,71 @@ export function Map() {
         buildingCount={buildingCount}
         zoom={zoom}
         buildingMinZoom={14}
+        title={travelLabel}
+        statisticLabel={statisticLabel}
       />
       <InfoPanel
         hexId={displayHexId}
-        travelTime={displayTravelTime}
+        travelTime={displayToTime}
         resolution={h3Resolution}
         hexCount={hexIds.length}
+        destinationName={destination.name}
+        fastestMode={displayMode}
+        itinerary={displayItinerary}
+        coverage={displayCoverage}
+        dataAge={displayDataAge}
+        returnTrip={displayReturnTrip}
+        aggregation={h3Resolution < BASE_H3_RESOLUTION ? formatAggregation(aggregation) : null}
+        livability={displayLivability}
+        estimate={displayEstimate ? { label: viewLabel, score: displayEstimate } : null}
+        comparison={displayComparison}
+        colorScale={travelScale}
+      />
+      {legend}
+      <ViewportStats stats={viewportStats} viewLabel={travelLabel} colorScale={travelScale} />
+      {activeColorBy === 'livability' && (
+        <WeightsPanel
+          indicators={livabilityIndicators}
+          weights={livabilityWeights}
+          onWeightChange={handleLivabilityWeightChange}
+          onReset={() => setLivabilityWeights({})}
+        />
+      )}
+      <DisplayOptions
+        regions={REGIONS}
+        regionId={region.id}
+        onRegionChange={handleRegionChange}
+        destinations={availableDestinations}
+        destinationId={destination.id}
+        onDestinationChange={handleDestinationChange}
+        statistic={statistic}
+        onStatisticChange={handleStatisticChange}
+        availableModes={availableModes}
+        travelMode={activeMode}
+        onTravelModeChange={handleTravelModeChange}
+        hasReturnTrips={returnTripsAvailable}
+        direction={activeDirection}
+        onDirectionChange={handleDirectionChange}
+        asymmetryThreshold={asymmetryThreshold}
+        onAsymmetryThresholdChange={setAsymmetryThreshold}
+        colorBy={activeColorBy}
+        onColorByChange={setColorBy}
+        baselines={baselines}
+        baseline={activeBaseline?.key ?? null}
+        onBaselineChange={setBaseline}
+        colorScale={colorScaleConfig}
+        onColorScaleChange={setColorScaleConfig}
+        clipToCoastline={clipToCoastline}
+        onClipToCoastlineChange={setClipToCoastline}
+        aggregationMethod={aggregationMethod}
+        onAggregationMethodChange={handleAggregationMethodChange}
+        aggregationPercentile={aggregationPercentile}
+        onAggregationPercentileChange={setAggregationPercentile}
+        gapFillMethod={gapFillMethod}
+        onGapFillMethodChange={setGapFillMethod}
+        gapFillRadius={gapFillRadius}
+        onGapFillRadiusChange={setGapFillRadius}
       />
-      <Legend />
     </div>
   );
 }
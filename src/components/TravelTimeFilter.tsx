@@ -17,6 +17,9 @@ interface TravelTimeFilterProps {
   buildingCount?: number;
   zoom?: number;
   buildingMinZoom?: number;
+  // Names the minutes the buildings are filtered by, e.g. "Travel time from Pasila"
+  title?: string;
+  statisticLabel?: string;
 }
 
 function rangeToSlider(value: TravelTimeRange | null): { min: number; max: number } {
@@ -53,7 +56,7 @@ function clientXToValue(clientX: number, trackRect: DOMRect): number {
   return Math.round(Math.max(SLIDER_MIN, Math.min(SLIDER_MAX, fraction * SLIDER_MAX)));
 }
 
-export function TravelTimeFilter({ value, onChange, buildingCount = 0, zoom, buildingMinZoom = 14 }: TravelTimeFilterProps) {
+export function TravelTimeFilter({ value, onChange, buildingCount = 0, zoom, buildingMinZoom = 14, title = 'Travel time', statisticLabel }: TravelTimeFilterProps) {
   const slider = useMemo(() => rangeToSlider(value), [value]);
   const trackRef = useRef<HTMLDivElement>(null);
   const [dragging, setDragging] = useState<'min' | 'max' | null>(null);
@@ -135,7 +138,10 @@ export function TravelTimeFilter({ value, onChange, buildingCount = 0, zoom, bui
         </div>
       )}
       <div style={{ fontWeight: 600, marginBottom: '4px', fontSize: '12px', color: '#374151' }}>
-        Travel time to center
+        {title}
+        {statisticLabel && (
+          <span style={{ fontWeight: 400, color: '#6b7280' }}> · {statisticLabel}</span>
+        )}
       </div>
       <div
         style={{
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { getTravelTimeColor } from '../utils/colors';
+import type { ColorScale } from '../utils/colorscales';
+import { formatTravelTime } from '../utils/scoring';
+import { HISTOGRAM_BIN_MINUTES, type ViewportStats as Stats } from '../utils/viewport';
+
+interface ViewportStatsProps {
+  stats: Stats;
+  // What the travel times are, e.g. "Travel time to Pasila"
+  viewLabel: string;
+  colorScale?: ColorScale | null;
+}
+
+const HISTOGRAM_WIDTH = 240;
+const HISTOGRAM_HEIGHT = 56;
+
+export function ViewportStats({ stats, viewLabel, colorScale = null }: ViewportStatsProps) {
+  const [collapsed, setCollapsed] = useState(false);
+  const maxCount = Math.max(1, ...stats.histogram.map((bin) => bin.count));
+  const barWidth = HISTOGRAM_WIDTH / stats.histogram.length;
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: '20px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        backgroundColor: 'white',
+        padding: '10px 14px',
+        borderRadius: '8px',
+        boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+        zIndex: 1000,
+        fontFamily: 'system-ui, sans-serif',
+        fontSize: '12px',
+        width: `${HISTOGRAM_WIDTH + 28}px`,
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
+        <span style={{ fontWeight: 600 }}>In View</span>
+        <button
+          type="button"
+          onClick={() => setCollapsed(!collapsed)}
+          style={{ border: 'none', background: 'none', color: '#3b82f6', cursor: 'pointer', fontSize: '11px' }}
+        >
+          {collapsed ? 'Show' : 'Hide'}
+        </button>
+      </div>
+      <div style={{ fontSize: '11px', color: '#666' }}>
+        {viewLabel} • {stats.hexCount.toLocaleString()} hexes • {stats.buildingCount.toLocaleString()} buildings
+      </div>
+
+      {!collapsed &&
+        (stats.hexCount === 0 ? (
+          <div style={{ color: '#666', marginTop: '8px' }}>No travel times in view</div>
+        ) : (
+          <>
+            <svg
+              width={HISTOGRAM_WIDTH}
+              height={HISTOGRAM_HEIGHT + 12}
+              style={{ display: 'block', marginTop: '8px' }}
+              role="img"
+              aria-label="Histogram of travel times in view"
+            >
+              {stats.histogram.map((bin, i) => {
+                const height = (bin.count / maxCount) * HISTOGRAM_HEIGHT;
+                return (
+                  <rect
+                    key={bin.min}
+                    x={i * barWidth + 0.5}
+                    y={HISTOGRAM_HEIGHT - height}
+                    width={barWidth - 1}
+                    height={height}
+                    fill={getTravelTimeColor(bin.min, colorScale)}
+                    opacity={0.8}
+                  >
+                    <title>
+                      {bin.max === Infinity ? `${bin.min}+ min` : `${bin.min}-${bin.max} min`}: {bin.count} hexes
+                    </title>
+                  </rect>
+                );
+              })}
+              {[0, 30, 60, 90].map((minutes) => (
+                <text
+                  key={minutes}
+                  x={Math.min((minutes / HISTOGRAM_BIN_MINUTES) * barWidth, HISTOGRAM_WIDTH - 10)}
+                  y={HISTOGRAM_HEIGHT + 11}
+                  fontSize="9"
+                  fill="#666"
+                >
+                  {minutes}
+                </text>
+              ))}
+            </svg>
+
+            <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '6px' }}>
+              {stats.percentiles.map(({ p, minutes }) => (
+                <div key={p} style={{ textAlign: 'center' }}>
+                  <div style={{ fontSize: '10px', color: '#666' }}>{p === 50 ? 'Median' : `P${p}`}</div>
+                  <div style={{ fontWeight: p === 50 ? 600 : 400 }}>{formatTravelTime(Math.round(minutes))}</div>
+                </div>
+              ))}
+            </div>
+
+            <div style={{ marginTop: '8px', fontSize: '11px', color: '#666' }}>Buildings per color band</div>
+            {stats.bands.map(({ stop, share }) => (
+              <div key={stop.label} style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '2px' }}>
+                <span style={{ width: '60px' }}>{stop.label}</span>
+                <div style={{ flex: 1, height: '8px', backgroundColor: '#f1f5f9', borderRadius: '2px' }}>
+                  <div
+                    style={{
+                      width: `${share * 100}%`,
+                      height: '100%',
+                      backgroundColor: stop.color,
+                      opacity: 0.8,
+                      borderRadius: '2px',
+                    }}
+                  />
+                </div>
+                <span style={{ width: '34px', textAlign: 'right' }}>{Math.round(share * 100)}%</span>
+              </div>
+            ))}
+          </>
+        ))}
+    </div>
+  );
+}
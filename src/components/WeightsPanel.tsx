@@ -0,0 +1,70 @@
+import { getIndicatorWeight, MAX_INDICATOR_WEIGHT, type Indicator, type IndicatorWeights } from '../utils/livability';
+
+interface WeightsPanelProps {
+  indicators: Indicator[];
+  weights: IndicatorWeights;
+  onWeightChange: (indicatorId: string, weight: number) => void;
+  onReset: () => void;
+}
+
+export function WeightsPanel({ indicators, weights, onWeightChange, onReset }: WeightsPanelProps) {
+  const totalWeight = indicators.reduce((sum, indicator) => sum + getIndicatorWeight(indicator, weights), 0);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: '20px',
+        left: '330px',
+        backgroundColor: 'white',
+        padding: '12px 16px',
+        borderRadius: '8px',
+        boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+        zIndex: 1000,
+        fontFamily: 'system-ui, sans-serif',
+        fontSize: '13px',
+        minWidth: '240px',
+        maxHeight: '50vh',
+        overflowY: 'auto',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: '2px' }}>
+        <span style={{ fontWeight: 600 }}>Livability Weights</span>
+        <button
+          type="button"
+          onClick={onReset}
+          style={{ border: 'none', background: 'none', color: '#3b82f6', cursor: 'pointer', fontSize: '11px' }}
+        >
+          Reset
+        </button>
+      </div>
+      <div style={{ fontSize: '11px', color: '#666', marginBottom: '8px' }}>
+        Each indicator is scaled to 0-100 across the hexes
+      </div>
+      {indicators.map((indicator) => {
+        const weight = getIndicatorWeight(indicator, weights);
+        return (
+          <div key={indicator.id} style={{ marginBottom: '6px' }}>
+            <label
+              htmlFor={`weight-${indicator.id}`}
+              style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', color: weight > 0 ? '#333' : '#999' }}
+            >
+              <span>{indicator.label}</span>
+              <span>{totalWeight > 0 ? `${Math.round((weight / totalWeight) * 100)}%` : '–'}</span>
+            </label>
+            <input
+              id={`weight-${indicator.id}`}
+              type="range"
+              min={0}
+              max={MAX_INDICATOR_WEIGHT}
+              step={1}
+              value={weight}
+              onChange={(e) => onWeightChange(indicator.id, Number(e.target.value))}
+              style={{ width: '100%' }}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
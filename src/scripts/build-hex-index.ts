@@ -0,0 +1,49 @@
+/**
+ * Precompute the land hexes of every region for the map
+ *
+ *   npm run build-hex-index
+ *   npm run build-hex-index -- --region espoo
+ *
+ * Writes src/data/hex-index/<region>.json with the study area hexes at
+ * resolutions 6-10 as compacted H3 cell sets, so the app answers "is this hex
+ * in the study area" with a lookup instead of running polygonToCells and land
+ * checks while panning. Rerun after changing a region's outline or land polygons.
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { compactCells } from 'h3-js';
+import { computeStudyAreaHexes, DEFAULT_LAND_COVERAGE, INDEX_RESOLUTIONS, type HexIndex } from '../utils/h3';
+import { REGIONS } from '../utils/regions';
+import { parseRegionArg } from './lib/region-arg';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const OUTPUT_DIR = join(__dirname, '../data/hex-index');
+const INDEX_VERSION = 1;
+
+function main() {
+  const regions = process.argv.includes('--region') ? [parseRegionArg()] : REGIONS;
+  mkdirSync(OUTPUT_DIR, { recursive: true });
+
+  for (const region of regions) {
+    const startedAt = Date.now();
+    const index: HexIndex = { version: INDEX_VERSION, landCoverage: DEFAULT_LAND_COVERAGE, resolutions: {} };
+
+    console.log(`\n${region.name}:`);
+    for (const resolution of INDEX_RESOLUTIONS) {
+      const hexes = computeStudyAreaHexes(region, resolution);
+      index.resolutions[resolution] = compactCells(hexes).sort();
+      console.log(
+        `  Resolution ${resolution}: ${hexes.length} hexes, ${index.resolutions[resolution].length} after compacting`
+      );
+    }
+
+    const outputPath = join(OUTPUT_DIR, `${region.id}.json`);
+    writeFileSync(outputPath, JSON.stringify(index));
+    console.log(`  Wrote ${outputPath} in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+  }
+}
+
+main();
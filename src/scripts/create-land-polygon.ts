@@ -1,93 +1,258 @@
 /**
- * Create a combined land polygon for Helsinki:
- * - Mainland polygon (northern Helsinki, all land)
- * - Island polygons from coastline data
+ * Create the land polygon of a region from its administrative boundary
+ *
+ *   npx tsx src/scripts/create-land-polygon.ts --boundary /tmp/helsinki_boundary.json
+ *   npx tsx src/scripts/create-land-polygon.ts --region espoo --boundary espoo_boundary.json --water lakes.geojson
+ *   npx tsx src/scripts/create-land-polygon.ts --boundary src/data/boundaries/helsinki.geojson \
+ *     --land src/data/helsinki-land.geojson --land src/data/capital-region-land.geojson
+ *
+ * The boundary is an Overpass API JSON export (`out geom;`) of the boundary=administrative
+ * relation, or a GeoJSON file. Without --boundary the region's outline is used; like a
+ * municipal boundary, its sea side runs offshore. The boundary is intersected with the land
+ * polygons written by process-coastline (--land, defaults to src/data/<region>-land.geojson;
+ * repeat it to combine several sources, e.g. a detailed coastline export with coarser land
+ * polygons for the coast it does not cover), and optional extra water polygons (--water) are
+ * cut out.
+ *
+ * The result is written as a single MultiPolygon feature (src/data/<region>-land.json) after
+ * checking that every ring is closed, correctly oriented and free of self-intersections.
+ * src/data/README.md lists the inputs each shipped land polygon was built from.
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
+import intersect from '@turf/intersect';
+import difference from '@turf/difference';
+import { featureCollection, multiPolygon } from '@turf/helpers';
+import type { Feature, FeatureCollection, MultiPolygon, Polygon } from 'geojson';
+import {
+  findRingIntersections,
+  isCounterClockwise,
+  isPointInRing,
+  polygonAreaSquareMeters,
+  ringAreaSquareMeters,
+  type LngLat,
+} from '../utils/geometry';
+import { parseRegionArg } from './lib/region-arg';
 
-// The mainland of Helsinki - a polygon that covers the land areas
-// This is traced to follow the actual coastline more closely
-const MAINLAND_POLYGON: [number, number][] = [
-  // Start from northwest corner and trace the coastline
-  // Northwest - Espoo border (land boundary)
-  [24.7828, 60.10],
-  [24.7828, 60.30],  // Northern border (all land)
-  [25.26, 60.30],    // Northeast corner
-  [25.26, 60.20],    // East side going south
-
-  // Eastern coastline (Vuosaari area) - tracing land
-  [25.22, 60.20],
-  [25.20, 60.195],
-  [25.17, 60.19],
-
-  // Southeastern coastline
-  [25.14, 60.185],
-  [25.10, 60.18],
-  [25.07, 60.175],
-  [25.05, 60.175],
-  [25.03, 60.172],
-
-  // Kulosaari/Herttoniemi area
-  [25.02, 60.17],
-  [25.00, 60.168],
-  [24.98, 60.165],
-
-  // Southern peninsula - city center
-  [24.96, 60.162],
-  [24.94, 60.158],
-  [24.92, 60.155],
-  [24.90, 60.153],
-  [24.88, 60.152],
-  [24.87, 60.155],
-
-  // Southwest - Lauttasaari area (following coastline)
-  [24.86, 60.158],
-  [24.85, 60.162],
-  [24.84, 60.168],
-  [24.83, 60.175],
-  [24.82, 60.182],
-  [24.81, 60.19],
-  [24.80, 60.20],
-
-  // West side going north back to start
-  [24.7828, 60.20],
-  [24.7828, 60.10],  // Close the polygon
-];
-
-// Read the island polygons we extracted
-const islandsPath = path.join(process.cwd(), 'src/data/helsinki-land.geojson');
-const islandsData = JSON.parse(fs.readFileSync(islandsPath, 'utf-8'));
-
-// Create the combined GeoJSON with mainland + islands
-const combinedFeatures = [
-  // Mainland as the first (and largest) feature
-  {
-    type: 'Feature' as const,
-    properties: { id: 'mainland', name: 'Helsinki Mainland' },
-    geometry: {
-      type: 'Polygon' as const,
-      coordinates: [MAINLAND_POLYGON]  // [lng, lat] format for GeoJSON
+interface OsmMember {
+  type: string;
+  role: string;
+  geometry?: { lat: number; lon: number }[];
+}
+
+interface OsmRelation {
+  type: 'relation';
+  id: number;
+  members: OsmMember[];
+  tags?: Record<string, string>;
+}
+
+interface OsmData {
+  elements: (OsmRelation | { type: string })[];
+}
+
+type PolygonCoords = LngLat[][];
+
+function getArgValue(flag: string): string | null {
+  const index = process.argv.indexOf(flag);
+  if (index === -1 || !process.argv[index + 1]) {
+    return null;
+  }
+  return process.argv[index + 1];
+}
+
+// All values of a flag that may be given more than once
+function getArgValues(flag: string): string[] {
+  return process.argv.flatMap((arg, i) => (arg === flag && process.argv[i + 1] ? [process.argv[i + 1]] : []));
+}
+
+function readJson<T>(filePath: string, description: string): T {
+  if (!fs.existsSync(filePath)) {
+    console.error(`${description} not found: ${filePath}`);
+    process.exit(1);
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+function coordKey(coord: LngLat): string {
+  return `${coord[0].toFixed(7)},${coord[1].toFixed(7)}`;
+}
+
+/**
+ * Join relation member ways into closed rings. Boundary ways have no
+ * meaningful direction, so they are reversed where needed.
+ */
+function assembleRings(ways: LngLat[][]): { rings: LngLat[][]; open: number } {
+  const remaining = ways.filter((way) => way.length >= 2);
+  const rings: LngLat[][] = [];
+  let open = 0;
+
+  while (remaining.length > 0) {
+    const ring = [...remaining.pop()!];
+    while (coordKey(ring[0]) !== coordKey(ring[ring.length - 1])) {
+      const endKey = coordKey(ring[ring.length - 1]);
+      const next = remaining.findIndex(
+        (way) => coordKey(way[0]) === endKey || coordKey(way[way.length - 1]) === endKey
+      );
+      if (next === -1) break;
+      const [way] = remaining.splice(next, 1);
+      ring.push(...(coordKey(way[0]) === endKey ? way : [...way].reverse()).slice(1));
     }
-  },
-  // Add all island features
-  ...islandsData.features.map((f: any, i: number) => ({
-    ...f,
-    properties: { ...f.properties, id: `island-${i}`, name: `Island ${i}` }
-  }))
-];
-
-const combinedGeojson = {
-  type: 'FeatureCollection' as const,
-  features: combinedFeatures
-};
-
-// Save the combined land polygon
-const outputPath = path.join(process.cwd(), 'src/data/helsinki-land-combined.geojson');
-fs.writeFileSync(outputPath, JSON.stringify(combinedGeojson, null, 2));
-
-console.log(`Created combined land polygon with ${combinedFeatures.length} features`);
-console.log(`  - 1 mainland polygon`);
-console.log(`  - ${islandsData.features.length} island polygons`);
-console.log(`Saved to: ${outputPath}`);
+
+    if (ring.length >= 4 && coordKey(ring[0]) === coordKey(ring[ring.length - 1])) {
+      rings.push(ring);
+    } else {
+      open++;
+    }
+  }
+
+  return { rings, open };
+}
+
+/**
+ * Boundary polygons from an Overpass relation export: outer rings with the
+ * inner rings that fall inside them
+ */
+function boundaryFromOsm(data: OsmData): PolygonCoords[] {
+  const relations = data.elements.filter((e): e is OsmRelation => e.type === 'relation');
+  if (relations.length === 0) {
+    console.error('No boundary relation found in the input');
+    process.exit(1);
+  }
+
+  const waysWithRole = (role: string) =>
+    relations.flatMap((relation) =>
+      relation.members
+        .filter((m) => m.type === 'way' && m.geometry && (m.role === role || (role === 'outer' && m.role === '')))
+        .map((m) => m.geometry!.map((p): LngLat => [p.lon, p.lat]))
+    );
+
+  const outer = assembleRings(waysWithRole('outer'));
+  const inner = assembleRings(waysWithRole('inner'));
+  if (outer.open + inner.open > 0) {
+    console.warn(`Skipped ${outer.open + inner.open} boundary ways that do not form closed rings`);
+  }
+
+  const polygons: PolygonCoords[] = outer.rings
+    .sort((a, b) => ringAreaSquareMeters(a) - ringAreaSquareMeters(b))
+    .map((ring) => [ring]);
+  for (const hole of inner.rings) {
+    // Smallest outer ring around the hole (the list is sorted by area)
+    polygons.find((polygon) => isPointInRing(hole[0], polygon[0]))?.push(hole);
+  }
+  return polygons;
+}
+
+function toPolygons(geometry: Polygon | MultiPolygon): PolygonCoords[] {
+  return (geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates) as PolygonCoords[];
+}
+
+function readPolygons(filePath: string, description: string): PolygonCoords[] {
+  const data = readJson<FeatureCollection | Feature | OsmData>(filePath, description);
+  if ('elements' in data) {
+    return boundaryFromOsm(data);
+  }
+  const features = data.type === 'FeatureCollection' ? data.features : [data as Feature];
+  return features
+    .filter((f) => f.geometry?.type === 'Polygon' || f.geometry?.type === 'MultiPolygon')
+    .flatMap((f) => toPolygons(f.geometry as Polygon | MultiPolygon));
+}
+
+/**
+ * Orient rings per RFC 7946 (outer counter-clockwise, holes clockwise) and
+ * fail on anything that is not a valid polygon
+ */
+function validate(polygons: PolygonCoords[]): PolygonCoords[] {
+  const problems: string[] = [];
+
+  const oriented = polygons.map((rings, p) =>
+    rings.map((ring, r) => {
+      if (ring.length < 4 || coordKey(ring[0]) !== coordKey(ring[ring.length - 1])) {
+        problems.push(`polygon ${p} ring ${r} is not a closed ring of at least 4 positions`);
+      }
+      const wantCounterClockwise = r === 0;
+      return isCounterClockwise(ring) === wantCounterClockwise ? ring : [...ring].reverse();
+    })
+  );
+
+  const intersections = findRingIntersections(oriented.flat());
+  for (const { point: [lng, lat] } of intersections) {
+    problems.push(`self-intersection at ${lat.toFixed(6)}, ${lng.toFixed(6)}`);
+  }
+
+  if (problems.length > 0) {
+    console.error('Land polygon is invalid:');
+    problems.forEach((problem) => console.error(`  ${problem}`));
+    process.exit(1);
+  }
+  return oriented;
+}
+
+function main() {
+  const region = parseRegionArg();
+  const boundaryPath = getArgValue('--boundary');
+  const landPaths = getArgValues('--land');
+  if (landPaths.length === 0) {
+    landPaths.push(path.join(process.cwd(), `src/data/${region.id}-land.geojson`));
+  }
+  const waterPath = getArgValue('--water');
+  const outputPath = getArgValue('--output') ?? path.join(process.cwd(), `src/data/${region.id}-land.json`);
+
+  // Region outlines are [lat, lng] rings
+  const boundary = boundaryPath
+    ? readPolygons(boundaryPath, 'Boundary file')
+    : region.polygons.map((outline) => {
+        const ring = outline.map(([lat, lng]): LngLat => [lng, lat]);
+        return [coordKey(ring[0]) === coordKey(ring[ring.length - 1]) ? ring : [...ring, ring[0]]];
+      });
+  // Overlapping polygons from different sources are merged by the intersection below
+  const land = landPaths.flatMap((landPath) => readPolygons(landPath, 'Land polygons (run process-coastline first)'));
+  const water = waterPath ? readPolygons(waterPath, 'Water polygons') : [];
+  console.log(`Region: ${region.name}`);
+  console.log(
+    `Boundary: ${boundary.length} polygons${boundaryPath ? '' : ' (region outline)'} | ` +
+      `Land: ${land.length} polygons from ${landPaths.length} files | Water: ${water.length} polygons`
+  );
+
+  const clipped = intersect(featureCollection([multiPolygon(boundary), multiPolygon(land)]));
+  if (!clipped) {
+    console.error('The boundary does not overlap the land polygons');
+    process.exit(1);
+  }
+  const result = water.length > 0 ? difference(featureCollection([clipped, multiPolygon(water)])) : clipped;
+  if (!result) {
+    console.error('Nothing is left after removing the water polygons');
+    process.exit(1);
+  }
+
+  const polygons = validate(toPolygons(result.geometry))
+    .map((rings) => ({ rings, area: polygonAreaSquareMeters(rings) }))
+    .sort((a, b) => b.area - a.area);
+  const totalArea = polygons.reduce((sum, polygon) => sum + polygon.area, 0);
+  const vertexCount = polygons.reduce((sum, polygon) => sum + polygon.rings.flat().length, 0);
+
+  const output = {
+    type: 'FeatureCollection' as const,
+    features: [
+      {
+        type: 'Feature' as const,
+        properties: { name: `${region.name} land`, area: Math.round(totalArea) },
+        geometry: {
+          type: 'MultiPolygon' as const,
+          coordinates: polygons.map((polygon) => polygon.rings),
+        },
+      },
+    ],
+  };
+  fs.writeFileSync(outputPath, JSON.stringify(output, null, 2));
+
+  console.log(
+    `Wrote a valid MultiPolygon with ${polygons.length} parts, ${vertexCount} vertices and ` +
+      `${(totalArea / 1e6).toFixed(2)} km² of land to ${outputPath}`
+  );
+  console.log(`  Mainland: ${(polygons[0].area / 1e6).toFixed(2)} km²`);
+  console.log(`  Islands: ${polygons.length - 1} (${((totalArea - polygons[0].area) / 1e6).toFixed(2)} km²)`);
+}
+
+main();
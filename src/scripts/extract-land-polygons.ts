@@ -0,0 +1,122 @@
+/**
+ * Extract the land polygons of a region from a world land GeoJSON
+ *
+ *   npx tsx src/scripts/extract-land-polygons.ts --region capital-region --input /tmp/earth-lands/package/map.geo.json
+ *
+ * The input is the map of @geo-maps/earth-lands-10m (OSM land polygons, ODbL), fetched with
+ *
+ *   npm pack @geo-maps/earth-lands-10m@0.6.0 && tar -xzf geo-maps-earth-lands-10m-0.6.0.tgz -C /tmp/earth-lands
+ *
+ * The file is 135 MB, so run the script with NODE_OPTIONS=--max-old-space-size=4096.
+ *
+ * Polygons are clipped to the region bounds, and parts smaller than --min-area m² (default
+ * 50 000) are dropped. Lakes stay as inner rings. The parts are written largest first as a
+ * FeatureCollection (--output, defaults to src/data/<region>-land.geojson) that
+ * create-land-polygon reads with --land.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import intersect from '@turf/intersect';
+import { featureCollection, multiPolygon } from '@turf/helpers';
+import type { Geometry } from 'geojson';
+import { polygonAreaSquareMeters, type LngLat } from '../utils/geometry';
+import type { MapBounds } from '../utils/h3';
+import { parseRegionArg } from './lib/region-arg';
+
+const DEFAULT_MIN_AREA = 50_000;
+
+type PolygonCoords = LngLat[][];
+
+function getArgValue(flag: string): string | null {
+  const index = process.argv.indexOf(flag);
+  if (index === -1 || !process.argv[index + 1]) {
+    return null;
+  }
+  return process.argv[index + 1];
+}
+
+function overlapsBounds(ring: LngLat[], bounds: MapBounds): boolean {
+  let west = Infinity;
+  let south = Infinity;
+  let east = -Infinity;
+  let north = -Infinity;
+  for (const [lng, lat] of ring) {
+    west = Math.min(west, lng);
+    south = Math.min(south, lat);
+    east = Math.max(east, lng);
+    north = Math.max(north, lat);
+  }
+  return east >= bounds.west && west <= bounds.east && north >= bounds.south && south <= bounds.north;
+}
+
+function getPolygons(geometry: Geometry): PolygonCoords[] {
+  switch (geometry.type) {
+    case 'Polygon':
+      return [geometry.coordinates as PolygonCoords];
+    case 'MultiPolygon':
+      return geometry.coordinates as PolygonCoords[];
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(getPolygons);
+    default:
+      return [];
+  }
+}
+
+function main() {
+  const region = parseRegionArg();
+  const inputPath = getArgValue('--input');
+  if (!inputPath || !fs.existsSync(inputPath)) {
+    console.error('Missing --input. Use: npx tsx src/scripts/extract-land-polygons.ts --input map.geo.json');
+    process.exit(1);
+  }
+  const minArea = Number(getArgValue('--min-area') ?? DEFAULT_MIN_AREA);
+  const outputPath = getArgValue('--output') ?? path.join(process.cwd(), `src/data/${region.id}-land.geojson`);
+  const { bounds } = region;
+
+  const data = JSON.parse(fs.readFileSync(inputPath, 'utf-8'));
+  const geometries: Geometry[] = data.type === 'FeatureCollection' ? data.features.map((f: { geometry: Geometry }) => f.geometry) : [data];
+  // The continents have thousands of lakes, so those outside the bounds are dropped before clipping
+  const polygons = geometries
+    .flatMap(getPolygons)
+    .filter(([outer]) => overlapsBounds(outer, bounds))
+    .map(([outer, ...holes]) => [outer, ...holes.filter((hole) => overlapsBounds(hole, bounds))]);
+  console.log(`Region: ${region.name} | Polygons overlapping the bounds: ${polygons.length}`);
+
+  const rect = multiPolygon([
+    [
+      [
+        [bounds.west, bounds.south],
+        [bounds.east, bounds.south],
+        [bounds.east, bounds.north],
+        [bounds.west, bounds.north],
+        [bounds.west, bounds.south],
+      ],
+    ],
+  ]);
+  const clipped = polygons.length > 0 ? intersect(featureCollection([multiPolygon(polygons), rect])) : null;
+  if (!clipped) {
+    console.error('No land within the region bounds');
+    process.exit(1);
+  }
+  const parts = (clipped.geometry.type === 'Polygon' ? [clipped.geometry.coordinates] : clipped.geometry.coordinates) as PolygonCoords[];
+  const land = parts
+    .map((rings) => ({ rings, area: polygonAreaSquareMeters(rings) }))
+    .filter((part) => part.area >= minArea)
+    .sort((a, b) => b.area - a.area);
+
+  const output = {
+    type: 'FeatureCollection',
+    features: land.map((part, id) => ({
+      type: 'Feature',
+      properties: { id, area: Math.round(part.area) },
+      geometry: { type: 'Polygon', coordinates: part.rings },
+    })),
+  };
+  fs.writeFileSync(outputPath, JSON.stringify(output, null, 2));
+
+  const lakes = land.reduce((sum, part) => sum + part.rings.length - 1, 0);
+  console.log(`Wrote ${land.length} of ${parts.length} land parts (${lakes} lakes) to ${outputPath}`);
+}
+
+main();
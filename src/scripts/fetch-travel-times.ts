@@ -1,61 +1,86 @@
-import { polygonToCells, cellToLatLng } from 'h3-js';
-import { writeFileSync, readFileSync, existsSync } from 'fs';
+import { cellToLatLng } from 'h3-js';
+import { writeFileSync, readFileSync, existsSync, mkdirSync, unlinkSync, copyFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { median, sampledPercentile } from '../utils/statistics';
+import type { HexTravelTimeRecord, ItineraryDetails } from '../utils/scoring';
+import { isTravelMode, TRAVEL_MODES, type ModeDataset, type TravelMode } from '../utils/modes';
+import { filterDatasetHexes, parseDataset, serializeDataset } from '../utils/dataset';
+import { filterHexesToLand, generateRegionHexes } from '../utils/h3';
+import type { RegionProfile } from '../utils/regions';
+import { DEFAULT_API_URL, DEFAULT_RETRY } from './lib/digitransit';
+import { createDigitransitBackend, createGtfsBackend, type TravelTimeBackend } from './lib/backend';
+import { createRateLimiter } from './lib/rate-limiter';
+import { runPool } from './lib/pool';
+import { parseLandCoverageArg, parseRegionArg } from './lib/region-arg';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
 // Digitransit API configuration
-const API_URL = 'https://api.digitransit.fi/routing/v2/hsl/gtfs/v1';
+// Point DIGITRANSIT_API_URL at the mock server (npm run mock-api) to run without a key,
+// or route offline from a GTFS zip with --gtfs path/to/hsl.zip
+const API_URL = process.env.DIGITRANSIT_API_URL || DEFAULT_API_URL;
 const API_KEY = process.env.DIGITRANSIT_API_KEY;
-if (!API_KEY) {
-  console.error('Missing DIGITRANSIT_API_KEY. Set it in .env or when running: DIGITRANSIT_API_KEY=xxx npm run fetch-data');
-  process.exit(1);
-}
-
-// Helsinki Railway Station - city center destination
-const CITY_CENTER = {
-  lat: 60.1699,
-  lng: 24.9384,
-};
-
-// Helsinki bounds following the coastline (excluding sea)
-const HELSINKI_POLYGON: [number, number][] = [
-  // Western edge - Espoo border area
-  [60.295, 24.82],
-  [60.275, 24.80],
-  [60.245, 24.80],
-  [60.225, 24.82],
-  // Southwest coast - Lauttasaari area
-  [60.185, 24.83],
-  [60.165, 24.85],
-  [60.155, 24.87],
-  // Southern peninsula - city center coastline
-  [60.150, 24.91],
-  [60.153, 24.95],
-  [60.155, 24.98],
-  // Southeast - Kulosaari, Herttoniemi
-  [60.165, 25.02],
-  [60.175, 25.05],
-  // East - Vuosaari area
-  [60.195, 25.08],
-  [60.205, 25.11],
-  [60.215, 25.14],
-  // Northeast corner
-  [60.245, 25.15],
-  [60.275, 25.14],
-  [60.295, 25.10],
-  // Northern edge
-  [60.295, 25.00],
-  [60.295, 24.90],
-  // Close polygon
-  [60.295, 24.82],
-];
+
+interface Destination {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+}
 
 const H3_RESOLUTION = 9;
-const DELAY_MS = 600; // Delay between requests to avoid rate limiting
-const OUTPUT_PATH = join(__dirname, '../data/hex-scores.json');
-const PROGRESS_PATH = join(__dirname, '../data/hex-scores-progress.json');
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_REQUESTS_PER_SECOND = 5; // Request budget, lowered automatically when throttled
+const CHECKPOINT_EVERY = 50; // Save progress after this many completed hexes
+const GTFS_HORIZON_MINUTES = 180; // Trips kept after the last departure when routing from GTFS
+const DESTINATIONS_PATH = join(__dirname, '../data/destinations.json');
+const OUTPUT_DIR = join(__dirname, '../data/hex-scores');
+// --part runs write here; combine them with npm run merge-data
+const PARTS_DIR = join(__dirname, '../data/hex-scores-parts');
+const BASELINES_DIR = join(__dirname, '../data/hex-scores/baselines');
+const PROGRESS_DIR = join(__dirname, '../data');
+const STATUS_DIR = join(__dirname, '../data/fetch-status');
+
+// Read the value following a CLI flag (e.g., --destination pasila)
+function getArgValue(flag: string): string | null {
+  const index = process.argv.indexOf(flag);
+  if (index === -1 || !process.argv[index + 1]) {
+    return null;
+  }
+  return process.argv[index + 1];
+}
+
+// Load destinations from the config file (override with --destinations path/to/file.json)
+// and optionally narrow them down with --destination id1,id2
+function loadDestinations(): Destination[] {
+  const configPath = getArgValue('--destinations') ?? DESTINATIONS_PATH;
+  if (!existsSync(configPath)) {
+    console.error(`Destinations config not found: ${configPath}`);
+    process.exit(1);
+  }
+
+  const destinations: Destination[] = JSON.parse(readFileSync(configPath, 'utf-8'));
+  for (const d of destinations) {
+    if (!d.id || typeof d.lat !== 'number' || typeof d.lng !== 'number') {
+      console.error(`Invalid destination in ${configPath}: ${JSON.stringify(d)}`);
+      process.exit(1);
+    }
+  }
+
+  const only = getArgValue('--destination');
+  if (!only) {
+    return destinations;
+  }
+
+  const ids = only.split(',');
+  const unknown = ids.filter((id) => !destinations.some((d) => d.id === id));
+  if (unknown.length > 0) {
+    console.error(`Unknown destination(s): ${unknown.join(', ')}`);
+    process.exit(1);
+  }
+  return destinations.filter((d) => ids.includes(d.id));
+}
 
 // Parse --part argument (e.g., --part 1/3)
 function parsePartArg(): { part: number; total: number } | null {
@@ -71,172 +96,667 @@ function parsePartArg(): { part: number; total: number } | null {
   return { part, total };
 }
 
-interface TravelTimeResult {
-  [hexId: string]: number; // travel time in minutes
+// Parse a positive numeric flag such as --concurrency 8
+function parseNumberArg(flag: string, defaultValue: number): number {
+  const value = getArgValue(flag);
+  if (value === null) {
+    return defaultValue;
+  }
+  const parsed = Number(value);
+  if (!(parsed > 0)) {
+    console.error(`Invalid ${flag} argument. Use a positive number`);
+    process.exit(1);
+  }
+  return parsed;
 }
 
-async function fetchTravelTime(
-  originLat: number,
-  originLng: number
-): Promise<number | null> {
-  const query = `
-    {
-      planConnection(
-        origin: {location: {coordinate: {latitude: ${originLat}, longitude: ${originLng}}}}
-        destination: {location: {coordinate: {latitude: ${CITY_CENTER.lat}, longitude: ${CITY_CENTER.lng}}}}
-        first: 1
-      ) {
-        edges {
-          node {
-            duration
-          }
-        }
-      }
-    }
-  `;
-
-  try {
-    const response = await fetch(API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'digitransit-subscription-key': API_KEY,
-      },
-      body: JSON.stringify({ query }),
-    });
+// Parse --modes transit,bicycle (defaults to every mode the backend supports)
+function parseModesArg(supported: TravelMode[]): TravelMode[] {
+  const value = getArgValue('--modes');
+  if (!value) {
+    return supported;
+  }
+  const modes = value.split(',');
+  const invalid = modes.filter((m) => !isTravelMode(m));
+  if (invalid.length > 0) {
+    console.error(`Unknown mode(s): ${invalid.join(', ')}. Use: ${TRAVEL_MODES.map((m) => m.id).join(', ')}`);
+    process.exit(1);
+  }
+  const unsupported = modes.filter((m) => !supported.includes(m as TravelMode));
+  if (unsupported.length > 0) {
+    console.error(`Mode(s) not supported by this backend: ${unsupported.join(', ')}. Use: ${supported.join(', ')}`);
+    process.exit(1);
+  }
+  return modes as TravelMode[];
+}
 
-    if (!response.ok) {
-      console.error(`HTTP error: ${response.status} ${response.statusText}`);
-      return null;
-    }
+interface DepartureWindow {
+  date: string; // YYYY-MM-DD
+  start: string; // HH:MM
+  end: string; // HH:MM
+  stepMinutes: number;
+}
 
-    const data = await response.json();
+// Default to the next weekday, 07:30-09:00 every 10 minutes (morning commute)
+function nextWeekday(): string {
+  const date = new Date();
+  do {
+    date.setDate(date.getDate() + 1);
+  } while (date.getDay() === 0 || date.getDay() === 6);
+  // Local date; toISOString() would give the UTC date, a day earlier just after midnight in Finland
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
 
-    if (data.errors) {
-      console.error('GraphQL errors:', data.errors);
-      return null;
-    }
+// Parse --date 2024-03-12 --window 07:30-09:00 --step 10
+function parseDepartureWindow(): DepartureWindow {
+  const date = getArgValue('--date') ?? nextWeekday();
+  const [start, end] = (getArgValue('--window') ?? '07:30-09:00').split('-');
+  const stepMinutes = Number(getArgValue('--step') ?? 10);
+
+  const timePattern = /^\d{2}:\d{2}$/;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !timePattern.test(start ?? '') || !timePattern.test(end ?? '')) {
+    console.error('Invalid departure window. Use format: --date 2024-03-12 --window 07:30-09:00 --step 10');
+    process.exit(1);
+  }
+  if (!(stepMinutes > 0)) {
+    console.error('Invalid --step argument. Use a positive number of minutes');
+    process.exit(1);
+  }
+  return { date, start, end, stepMinutes };
+}
 
-    const edges = data.data?.planConnection?.edges;
-    if (!edges || edges.length === 0) {
-      // No route found - location might be unreachable by transit
-      return null;
+// Parse --return-window 16:30-18:00 (or a single time such as --return-window 23:30)
+// for trips back from the destination, sampled on the same date and step.
+// Hexes that already have a return trip keep it; use a refresh run to re-query them with a new window.
+function parseReturnWindow(window: DepartureWindow): DepartureWindow | null {
+  const value = getArgValue('--return-window');
+  if (value === null) {
+    return null;
+  }
+  const [start, end = start] = value.split('-');
+  if (!/^\d{2}:\d{2}$/.test(start ?? '') || !/^\d{2}:\d{2}$/.test(end)) {
+    console.error('Invalid --return-window argument. Use format: --return-window 16:30-18:00 or --return-window 23:30');
+    process.exit(1);
+  }
+  return { ...window, start, end };
+}
+
+// Parse --keep-baseline 2024-03 to keep a copy of each destination's dataset as it was before this run,
+// in data/hex-scores/baselines/<id>/<label>.json where the map's change view can compare against it
+function parseKeepBaselineArg(): string | null {
+  const label = getArgValue('--keep-baseline');
+  if (label === null) {
+    return null;
+  }
+  if (!/^[\w.-]+$/.test(label)) {
+    console.error('Invalid --keep-baseline argument. Use a label of letters, digits, dots and dashes, e.g. 2024-03');
+    process.exit(1);
+  }
+  return label;
+}
+
+function formatWindow(window: DepartureWindow): string {
+  return window.start === window.end ? window.start : `${window.start}-${window.end}`;
+}
+
+function toMinutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// UTC offset of Helsinki local time on the given date, e.g. "+03:00"
+function helsinkiOffset(date: string): string {
+  const name = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'Europe/Helsinki',
+    timeZoneName: 'longOffset',
+  })
+    .formatToParts(new Date(`${date}T12:00:00Z`))
+    .find((part) => part.type === 'timeZoneName')?.value;
+  return name?.replace('GMT', '') || '+02:00';
+}
+
+/**
+ * Expand a departure window into ISO 8601 departure times in Helsinki local time
+ */
+function getDepartureTimes(window: DepartureWindow): string[] {
+  const offset = helsinkiOffset(window.date);
+  const times: string[] = [];
+  for (let m = toMinutesOfDay(window.start); m <= toMinutesOfDay(window.end); m += window.stepMinutes) {
+    const hh = String(Math.floor(m / 60)).padStart(2, '0');
+    const mm = String(m % 60).padStart(2, '0');
+    times.push(`${window.date}T${hh}:${mm}:00${offset}`);
+  }
+  return times;
+}
+
+/**
+ * Hexes that did not get a value, per mode.
+ * Unreachable hexes have no route and are skipped on later runs (unless
+ * --retry-unreachable); failed hexes hit errors and are retried on every run
+ * or exclusively with --retry-failed.
+ */
+interface FetchStatus {
+  failed: Partial<Record<TravelMode, string[]>>;
+  unreachable: Partial<Record<TravelMode, string[]>>;
+}
+
+/**
+ * Re-query hexes that already have values: the N least recently fetched
+ * (--refresh-oldest N) and/or those fetched before a date (--refresh-before).
+ * Values without a fetch time count as the oldest.
+ */
+interface RefreshOptions {
+  oldest: number | null;
+  before: string | null; // YYYY-MM-DD
+}
+
+interface FetchOptions {
+  region: RegionProfile;
+  backend: TravelTimeBackend;
+  concurrency: number;
+  retryFailed: boolean;
+  retryUnreachable: boolean;
+  refresh: RefreshOptions | null;
+  // Trips from the destination back to every hex that has a route there
+  returnTrips: { window: string; departureTimes: string[] } | null;
+  // Label to keep the dataset under before it is changed
+  keepBaseline: string | null;
+}
+
+type HexOutcome =
+  | { status: 'ok'; record: Omit<HexTravelTimeRecord, 'returnTrip'> }
+  | { status: 'unreachable' }
+  | { status: 'failed'; reason: string };
+
+function loadFetchStatus(path: string): FetchStatus {
+  if (!existsSync(path)) {
+    return { failed: {}, unreachable: {} };
+  }
+  return JSON.parse(readFileSync(path, 'utf-8'));
+}
+
+/**
+ * Sample the travel time at every departure time and summarise the distribution.
+ * Departures without a route count as slower than any trip, so a hex reachable
+ * at only a few departures gets no median or p90 instead of its best trips.
+ * The itinerary closest to the median of the routed trips is kept as the
+ * representative route. A single failed departure fails the whole hex so it is
+ * retried later instead of being stored with a partial sample.
+ */
+async function fetchTravelTimeStats(
+  backend: TravelTimeBackend,
+  origin: { lat: number; lng: number },
+  destination: { lat: number; lng: number },
+  mode: TravelMode,
+  departureTimes: string[]
+): Promise<HexOutcome> {
+  const samples: { minutes: number; itinerary: ItineraryDetails }[] = [];
+
+  for (let i = 0; i < departureTimes.length; i++) {
+    const result = await backend.route({
+      origin,
+      destination,
+      mode,
+      departureTime: departureTimes[i],
+    });
+    if (result.status === 'failed') {
+      return result;
+    }
+    if (result.status === 'ok') {
+      samples.push({ minutes: result.minutes, itinerary: result.itinerary });
     }
+  }
+
+  if (samples.length === 0) {
+    return { status: 'unreachable' };
+  }
+
+  const minutes = samples.map((sample) => sample.minutes);
+  const routedMedian = median(minutes);
+  const representative = samples.reduce((best, sample) =>
+    Math.abs(sample.minutes - routedMedian) < Math.abs(best.minutes - routedMedian) ? sample : best
+  );
+
+  const typical = sampledPercentile(minutes, departureTimes.length, 50);
+  const reliable = sampledPercentile(minutes, departureTimes.length, 90);
+
+  return {
+    status: 'ok',
+    record: {
+      min: Math.min(...minutes),
+      median: typical === null ? null : Math.round(typical),
+      p90: reliable === null ? null : Math.round(reliable),
+      departures: departureTimes.length,
+      routed: samples.length,
+      itinerary: representative.itinerary,
+    },
+  };
+}
 
-    const durationSeconds = edges[0].node.duration;
-    return Math.round(durationSeconds / 60); // Convert to minutes
-  } catch (error) {
-    console.error('Fetch error:', error);
+// Parse --refresh-oldest 200 and --refresh-before 2024-03-01
+function parseRefreshArgs(): RefreshOptions | null {
+  const oldest = getArgValue('--refresh-oldest');
+  const before = getArgValue('--refresh-before');
+  if (oldest === null && before === null) {
     return null;
   }
+  if (oldest !== null && !(Number(oldest) > 0)) {
+    console.error('Invalid --refresh-oldest argument. Use a positive number of hexes');
+    process.exit(1);
+  }
+  if (before !== null && Number.isNaN(Date.parse(before))) {
+    console.error('Invalid --refresh-before argument. Use a date such as 2024-03-01');
+    process.exit(1);
+  }
+  return { oldest: oldest === null ? null : Math.floor(Number(oldest)), before };
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * Hexes to re-query, least recently fetched first. A hex is as old as its
+ * oldest value among the requested modes; hexes without values are left to
+ * normal runs.
+ */
+function selectHexesToRefresh(
+  results: ModeDataset,
+  hexIds: string[],
+  modes: TravelMode[],
+  refresh: RefreshOptions
+): string[] {
+  const fetchedTime = (hexId: string): number => {
+    const times = modes.map((mode) => {
+      const value = results[mode]?.[hexId];
+      if (value === undefined) return Infinity;
+      const fetchedAt = typeof value === 'number' || !('fetchedAt' in value) ? undefined : value.fetchedAt;
+      return fetchedAt ? Date.parse(fetchedAt) : 0;
+    });
+    return Math.min(...times);
+  };
+
+  const cutoff = refresh.before ? Date.parse(refresh.before) : Infinity;
+  const candidates = hexIds
+    .map((hexId) => ({ hexId, time: fetchedTime(hexId) }))
+    .filter((candidate) => candidate.time < cutoff)
+    .sort((a, b) => a.time - b.time);
+
+  return (refresh.oldest === null ? candidates : candidates.slice(0, refresh.oldest)).map((c) => c.hexId);
 }
 
-async function main() {
-  console.log('Generating H3 hexagons for Helsinki...');
-  const allHexIds = polygonToCells(HELSINKI_POLYGON, H3_RESOLUTION);
-  console.log(`Total hexagons: ${allHexIds.length}`);
+async function fetchDestination(
+  destination: Destination,
+  hexIds: string[],
+  modes: TravelMode[],
+  departureTimes: string[],
+  partConfig: { part: number; total: number } | null,
+  options: FetchOptions
+) {
+  // Parts never write the shared dataset, so they can run in parallel on
+  // different machines; each writes only its own hexes to a part file.
+  const partSuffix = partConfig ? `.part${partConfig.part}of${partConfig.total}` : '';
+  const datasetPath = join(OUTPUT_DIR, `${destination.id}.json`);
+  const outputPath = partConfig ? join(PARTS_DIR, `${destination.id}${partSuffix}.json`) : datasetPath;
+  const statusPath = join(STATUS_DIR, `${destination.id}${partSuffix}.json`);
+  const partLabel = partConfig ? ` (part ${partConfig.part}/${partConfig.total})` : '';
+  const partHexes = new Set(hexIds);
+
+  if (options.keepBaseline && !partConfig && existsSync(datasetPath)) {
+    const baselinePath = join(BASELINES_DIR, destination.id, `${options.keepBaseline}.json`);
+    if (existsSync(baselinePath)) {
+      console.log(`Baseline ${baselinePath} already exists, keeping it`);
+    } else {
+      mkdirSync(dirname(baselinePath), { recursive: true });
+      copyFileSync(datasetPath, baselinePath);
+      console.log(`Kept the current dataset as baseline ${baselinePath}`);
+    }
+  }
 
-  // Determine which hexes to process based on --part argument
-  const partConfig = parsePartArg();
-  let hexIds: string[];
-  let partLabel = '';
+  // Load existing results to merge with (the shared dataset is read-only for parts)
+  let results: ModeDataset = {};
+  for (const path of new Set([datasetPath, outputPath])) {
+    if (!existsSync(path)) continue;
+    console.log(`Loading existing results from ${path}...`);
+    const existing = parseDataset(JSON.parse(readFileSync(path, 'utf-8')));
+    for (const [mode, dataset] of Object.entries(existing) as [TravelMode, ModeDataset[TravelMode]][]) {
+      results[mode] = { ...results[mode], ...dataset };
+      console.log(`Loaded ${Object.keys(dataset ?? {}).length} existing ${mode} results`);
+    }
+  }
 
-  if (partConfig) {
-    const { part, total } = partConfig;
-    const chunkSize = Math.ceil(allHexIds.length / total);
-    const startIdx = (part - 1) * chunkSize;
-    const endIdx = Math.min(part * chunkSize, allHexIds.length);
-    hexIds = allHexIds.slice(startIdx, endIdx);
-    partLabel = ` (part ${part}/${total})`;
-    console.log(`Processing part ${part}/${total}: hexes ${startIdx + 1}-${endIdx} (${hexIds.length} hexes)`);
-  } else {
-    hexIds = allHexIds;
+  const saveOutput = () => {
+    const output = partConfig ? filterDatasetHexes(results, partHexes) : results;
+    writeFileSync(outputPath, JSON.stringify(serializeDataset(output), null, 2));
+  };
+
+  const status = loadFetchStatus(statusPath);
+  const failed = new Map(modes.map((mode) => [mode, new Set(status.failed[mode] ?? [])]));
+  const unreachable = new Map(modes.map((mode) => [mode, new Set(status.unreachable[mode] ?? [])]));
+
+  // Refresh runs only revisit hexes whose values are old
+  const refreshing = new Set<string>();
+  if (options.refresh) {
+    hexIds = selectHexesToRefresh(results, hexIds, modes, options.refresh);
+    hexIds.forEach((hexId) => refreshing.add(hexId));
+    console.log(`Refreshing ${hexIds.length} hexes with old values`);
   }
 
-  // Load existing results to merge with
-  let results: TravelTimeResult = {};
-  if (existsSync(OUTPUT_PATH)) {
-    console.log('Loading existing results to merge...');
-    results = JSON.parse(readFileSync(OUTPUT_PATH, 'utf-8'));
-    console.log(`Loaded ${Object.keys(results).length} existing results`);
+  // --retry-failed only revisits hexes from the failed list
+  if (options.retryFailed) {
+    const failedHexes = new Set(modes.flatMap((mode) => [...failed.get(mode)!]));
+    hexIds = hexIds.filter((hexId) => failedHexes.has(hexId));
+    console.log(`Retrying ${hexIds.length} previously failed hexes`);
   }
 
-  // Load progress for this specific part if available
-  const progressPath = partConfig
-    ? PROGRESS_PATH.replace('.json', `-part${partConfig.part}.json`)
-    : PROGRESS_PATH;
+  const saveStatus = () => {
+    for (const mode of modes) {
+      status.failed[mode] = [...failed.get(mode)!].sort();
+      status.unreachable[mode] = [...unreachable.get(mode)!].sort();
+    }
+    writeFileSync(statusPath, JSON.stringify(status, null, 2));
+  };
+
+  // Load progress for this destination and part if available
+  // (the resume index refers to the region's hex order, so regions keep separate files)
+  const progressPath = join(
+    PROGRESS_DIR,
+    `hex-scores-progress-${options.region.id}-${destination.id}${partConfig ? `-part${partConfig.part}` : ''}${options.retryFailed ? '-retry' : ''}${options.refresh ? '-refresh' : ''}.json`
+  );
 
   let startIndex = 0;
   if (existsSync(progressPath)) {
     console.log('Found existing progress, resuming...');
     const progressData = JSON.parse(readFileSync(progressPath, 'utf-8'));
     // Merge progress results into main results
-    results = { ...results, ...progressData.results };
+    const progressResults: ModeDataset = progressData.results;
+    for (const mode of modes) {
+      results[mode] = { ...results[mode], ...progressResults[mode] };
+    }
     startIndex = progressData.lastIndex + 1;
+    // Refreshed hexes are no longer old, so continue with the list picked at the start
+    if (progressData.hexIds) {
+      hexIds = progressData.hexIds;
+      refreshing.clear();
+      hexIds.forEach((hexId) => refreshing.add(hexId));
+    }
     console.log(`Resuming from index ${startIndex}`);
   }
 
-  console.log(`\nFetching travel times to city center${partLabel}...`);
-  console.log(`Delay between requests: ${DELAY_MS}ms\n`);
+  console.log(`\nFetching travel times to ${destination.name}${partLabel}...`);
+  console.log(`Modes: ${modes.join(', ')}`);
+  console.log(`Transit departure times per hex: ${departureTimes.length}`);
+  if (options.returnTrips) {
+    console.log(
+      `Return trips: departing ${options.returnTrips.window} (${options.returnTrips.departureTimes.length} transit departure times per hex)`
+    );
+  }
+  console.log(
+    `Workers: ${options.concurrency}` +
+      (options.backend.rate ? ` | Request budget: ${options.backend.rate()} req/s` : '') +
+      '\n'
+  );
 
   let successCount = 0;
   let skippedCount = 0;
-  let errorCount = 0;
+  let unreachableCount = 0;
+  let failedCount = 0;
+  // Return trips are counted apart from the outbound results
+  let returnCount = 0;
+  let noReturnCount = 0;
+
+  for (const mode of modes) {
+    results[mode] ??= {};
+  }
 
-  for (let i = startIndex; i < hexIds.length; i++) {
-    const hexId = hexIds[i];
+  // Transit is sampled across the departure window; the other modes barely
+  // depend on the departure time, so a single query is enough
+  const departuresFor = (mode: TravelMode, times: string[]) => (mode === 'transit' ? times : times.slice(0, 1));
+
+  // Trip back from the destination, stored on the hex's record. Hexes without
+  // a route to the destination have no record and are not asked.
+  const fetchReturnTrip = async (hexId: string, lat: number, lng: number, mode: TravelMode) => {
+    const modeResults = results[mode]!;
+    const value = modeResults[hexId];
+    if (!options.returnTrips || typeof value !== 'object' || ('returnTrip' in value && value.returnTrip !== undefined)) {
+      return;
+    }
 
-    // Skip if we already have this hex
-    if (results[hexId] !== undefined) {
-      skippedCount++;
-      continue;
+    const { window, departureTimes: returnTimes } = options.returnTrips;
+    const outcome = await fetchTravelTimeStats(options.backend, destination, { lat, lng }, mode, departuresFor(mode, returnTimes));
+
+    if (outcome.status === 'ok') {
+      const { min, median, p90, departures, routed, itinerary } = outcome.record;
+      modeResults[hexId] = { ...value, returnTrip: { min, median, p90, departures, routed, itinerary, window } };
+      failed.get(mode)!.delete(hexId);
+      returnCount++;
+    } else if (outcome.status === 'unreachable') {
+      // No way back, e.g. a gap in night service; stored so the map can show it
+      modeResults[hexId] = { ...value, returnTrip: null };
+      failed.get(mode)!.delete(hexId);
+      noReturnCount++;
+    } else {
+      console.error(`\nFailed ${hexId} (${mode}, return trip): ${outcome.reason}`);
+      failed.get(mode)!.add(hexId);
+      failedCount++;
     }
+  };
 
+  const fetchHex = async (hexId: string) => {
     const [lat, lng] = cellToLatLng(hexId);
-    const travelTime = await fetchTravelTime(lat, lng);
 
-    if (travelTime !== null) {
-      results[hexId] = travelTime;
-      successCount++;
-    } else {
-      errorCount++;
-    }
+    for (const mode of modes) {
+      const modeResults = results[mode]!;
+
+      // Skip if we already have this hex for this mode (unless refreshing it), or know it has no route
+      if (
+        (modeResults[hexId] !== undefined && !refreshing.has(hexId)) ||
+        (!options.retryUnreachable && unreachable.get(mode)!.has(hexId))
+      ) {
+        skippedCount++;
+        await fetchReturnTrip(hexId, lat, lng, mode);
+        continue;
+      }
 
-    // Progress update
-    const progress = ((i + 1) / hexIds.length * 100).toFixed(1);
-    const remaining = hexIds.length - i - 1 - skippedCount;
-    const eta = Math.round((remaining * DELAY_MS) / 60000);
+      const outcome = await fetchTravelTimeStats(
+        options.backend,
+        { lat, lng },
+        destination,
+        mode,
+        departuresFor(mode, departureTimes)
+      );
+
+      if (outcome.status === 'ok') {
+        modeResults[hexId] = { ...outcome.record, fetchedAt: new Date().toISOString(), source: options.backend.version };
+        failed.get(mode)!.delete(hexId);
+        unreachable.get(mode)!.delete(hexId);
+        successCount++;
+      } else if (outcome.status === 'unreachable') {
+        // A refreshed hex may have lost its route in the new timetable
+        delete modeResults[hexId];
+        failed.get(mode)!.delete(hexId);
+        unreachable.get(mode)!.add(hexId);
+        unreachableCount++;
+      } else {
+        console.error(`\nFailed ${hexId} (${mode}): ${outcome.reason}`);
+        // A failed refresh keeps the old value, so the hex is not missing
+        if (modeResults[hexId] === undefined) {
+          failed.get(mode)!.add(hexId);
+        }
+        failedCount++;
+      }
+
+      await fetchReturnTrip(hexId, lat, lng, mode);
+    }
+  };
+
+  // Workers finish out of order, so the checkpoint records the last index
+  // below which every hex is done; later completed hexes are skipped on resume
+  // because their results are already saved.
+  const completedAhead = new Set<number>();
+  let lastContiguousIndex = startIndex - 1;
+  let completedCount = 0;
+  const startedAt = Date.now();
+  const pending = hexIds.slice(startIndex);
+
+  const onHexDone = (_hexId: string, offset: number) => {
+    completedAhead.add(startIndex + offset);
+    while (completedAhead.has(lastContiguousIndex + 1)) {
+      completedAhead.delete(++lastContiguousIndex);
+    }
+    completedCount++;
+
+    // Progress update, with ETA from the throughput of this run
+    const done = startIndex + completedCount;
+    const progress = (done / hexIds.length * 100).toFixed(1);
+    const msPerHex = (Date.now() - startedAt) / completedCount;
+    const eta = Math.round(((pending.length - completedCount) * msPerHex) / 60000);
+    const rate = options.backend.rate?.().toFixed(1) ?? '-';
+    const returns = options.returnTrips ? ` | Returns: ${returnCount} | No way back: ${noReturnCount}` : '';
     process.stdout.write(
-      `\r[${progress}%] ${i + 1}/${hexIds.length} | New: ${successCount} | Skipped: ${skippedCount} | Errors: ${errorCount} | ETA: ${eta}min`
+      `\r[${progress}%] ${done}/${hexIds.length} | New: ${successCount} | Skipped: ${skippedCount} | Unreachable: ${unreachableCount}${returns} | Failed: ${failedCount} | ${rate} req/s | ETA: ${eta}min`
     );
 
-    // Save progress every 50 requests
-    if ((i + 1) % 50 === 0) {
-      writeFileSync(progressPath, JSON.stringify({ results, lastIndex: i }, null, 2));
-      writeFileSync(OUTPUT_PATH, JSON.stringify(results, null, 2));
+    // Save progress periodically
+    if (completedCount % CHECKPOINT_EVERY === 0) {
+      const checkpoint = { results, lastIndex: lastContiguousIndex, hexIds: options.refresh ? hexIds : undefined };
+      writeFileSync(progressPath, JSON.stringify(checkpoint, null, 2));
+      saveOutput();
+      saveStatus();
     }
+  };
 
-    // Rate limiting delay
-    if (i < hexIds.length - 1) {
-      await sleep(DELAY_MS);
-    }
-  }
+  await runPool(pending, options.concurrency, fetchHex, onHexDone);
 
   console.log('\n\nSaving results...');
-  writeFileSync(OUTPUT_PATH, JSON.stringify(results, null, 2));
+  saveOutput();
+  saveStatus();
 
   // Clean up progress file
   if (existsSync(progressPath)) {
-    const { unlinkSync } = await import('fs');
     unlinkSync(progressPath);
   }
 
-  console.log(`Done! Total results: ${Object.keys(results).length} hex travel times`);
-  console.log(`This run: New: ${successCount}, Skipped: ${skippedCount}, Errors: ${errorCount}`);
+  console.log(`Done! Total results for ${destination.name} in ${outputPath}:`);
+  for (const [mode, dataset] of Object.entries(partConfig ? filterDatasetHexes(results, partHexes) : results)) {
+    console.log(`  ${mode}: ${Object.keys(dataset).length} hex travel times`);
+  }
+  console.log(
+    `This run: New: ${successCount}, Skipped: ${skippedCount}, Unreachable: ${unreachableCount}, Failed: ${failedCount}`
+  );
+  if (options.returnTrips) {
+    console.log(`Return trips this run: ${returnCount}, No way back: ${noReturnCount}`);
+  }
+  const failedTotal = modes.reduce((sum, mode) => sum + failed.get(mode)!.size, 0);
+  if (failedTotal > 0) {
+    console.log(`${failedTotal} failed hex/mode pairs listed in ${statusPath}; rerun with --retry-failed`);
+  }
+}
+
+/**
+ * The live Digitransit API, or offline routing when --gtfs points at a feed
+ */
+async function createBackend(windows: DepartureWindow[]): Promise<TravelTimeBackend> {
+  const gtfsPath = getArgValue('--gtfs');
+  if (gtfsPath) {
+    if (!existsSync(gtfsPath)) {
+      console.error(`GTFS feed not found: ${gtfsPath}`);
+      process.exit(1);
+    }
+    // One timetable covers the outbound and the return departures
+    return createGtfsBackend(gtfsPath, {
+      date: windows[0].date,
+      startSeconds: Math.min(...windows.map((w) => toMinutesOfDay(w.start))) * 60,
+      endSeconds: (Math.max(...windows.map((w) => toMinutesOfDay(w.end))) + GTFS_HORIZON_MINUTES) * 60,
+    });
+  }
+
+  if (!API_KEY && API_URL === DEFAULT_API_URL) {
+    console.error('Missing DIGITRANSIT_API_KEY. Set it in .env or when running: DIGITRANSIT_API_KEY=xxx npm run fetch-data');
+    process.exit(1);
+  }
+  return createDigitransitBackend({
+    url: API_URL,
+    apiKey: API_KEY,
+    ...DEFAULT_RETRY,
+    rateLimiter: createRateLimiter({
+      requestsPerSecond: parseNumberArg('--rps', DEFAULT_REQUESTS_PER_SECOND),
+    }),
+  });
+}
+
+async function main() {
+  const destinations = loadDestinations();
+  console.log(`Destinations: ${destinations.map((d) => d.name).join(', ')}`);
+
+  const departureWindow = parseDepartureWindow();
+  const departureTimes = getDepartureTimes(departureWindow);
+  console.log(
+    `Departure window: ${departureWindow.date} ${departureWindow.start}-${departureWindow.end} every ${departureWindow.stepMinutes} min`
+  );
+
+  const returnWindow = parseReturnWindow(departureWindow);
+  const returnTimes = returnWindow ? getDepartureTimes(returnWindow) : [];
+  if (returnWindow) {
+    console.log(`Return window: ${returnWindow.date} ${formatWindow(returnWindow)} every ${returnWindow.stepMinutes} min`);
+  }
+
+  const backend = await createBackend(returnWindow ? [departureWindow, returnWindow] : [departureWindow]);
+  const modes = parseModesArg(backend.modes);
+
+  const region = parseRegionArg();
+  const landCoverage = parseLandCoverageArg();
+  console.log(`Generating H3 hexagons for ${region.name}...`);
+  const regionHexIds = generateRegionHexes(region, H3_RESOLUTION);
+  // Sea hexes only produce failed or meaningless routes, so they are never requested
+  const allHexIds = filterHexesToLand(regionHexIds, region, landCoverage);
+  const seaHexCount = regionHexIds.length - allHexIds.length;
+  const callsPerHex = modes.reduce(
+    (sum, mode) => sum + (mode === 'transit' ? departureTimes.length + returnTimes.length : returnWindow ? 2 : 1),
+    0
+  );
+  console.log(`Total hexagons: ${regionHexIds.length}`);
+  console.log(
+    `Land mask (at least ${Math.round(landCoverage * 100)}% land): ${allHexIds.length} land hexes, ` +
+      `${seaHexCount} sea hexes skipped, saving ${seaHexCount * callsPerHex} route requests per destination ` +
+      `(${seaHexCount * callsPerHex * destinations.length} in total)`
+  );
+
+  // Determine which hexes to process based on --part argument
+  const partConfig = parsePartArg();
+  let hexIds: string[];
+
+  if (partConfig) {
+    const { part, total } = partConfig;
+    const chunkSize = Math.ceil(allHexIds.length / total);
+    const startIdx = (part - 1) * chunkSize;
+    const endIdx = Math.min(part * chunkSize, allHexIds.length);
+    hexIds = allHexIds.slice(startIdx, endIdx);
+    console.log(`Processing part ${part}/${total}: hexes ${startIdx + 1}-${endIdx} (${hexIds.length} hexes)`);
+  } else {
+    hexIds = allHexIds;
+  }
+
+  const options: FetchOptions = {
+    region,
+    backend,
+    concurrency: Math.floor(parseNumberArg('--concurrency', DEFAULT_CONCURRENCY)),
+    retryFailed: process.argv.includes('--retry-failed'),
+    retryUnreachable: process.argv.includes('--retry-unreachable'),
+    refresh: parseRefreshArgs(),
+    returnTrips: returnWindow ? { window: formatWindow(returnWindow), departureTimes: returnTimes } : null,
+    keepBaseline: parseKeepBaselineArg(),
+  };
+  if (options.keepBaseline && partConfig) {
+    console.error('--keep-baseline cannot be used with --part, since parts never write the shared dataset');
+    process.exit(1);
+  }
+
+  console.log(`Backend: ${backend.name}`);
+  mkdirSync(partConfig ? PARTS_DIR : OUTPUT_DIR, { recursive: true });
+  mkdirSync(STATUS_DIR, { recursive: true });
+
+  for (const destination of destinations) {
+    await fetchDestination(destination, hexIds, modes, departureTimes, partConfig, options);
+  }
 }
 
 main().catch(console.error);
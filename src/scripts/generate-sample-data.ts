@@ -3,26 +3,27 @@
  * This simulates realistic travel times without hitting the API
  */
 
-import { writeFileSync } from 'fs';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
 import { dirname, join } from 'path';
 import { fileURLToPath } from 'url';
-import { polygonToCells, cellToLatLng } from 'h3-js';
+import { cellToLatLng } from 'h3-js';
+import { filterHexesToLand, generateRegionHexes } from '../utils/h3';
+import { parseLandCoverageArg, parseRegionArg } from './lib/region-arg';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
-// Helsinki bounds
-const HELSINKI_POLYGON: [number, number][] = [
-  [60.15, 24.80],
-  [60.15, 25.15],
-  [60.30, 25.15],
-  [60.30, 24.80],
-  [60.15, 24.80],
-];
-
 // Base resolution - this is the resolution stored in the data file
 // Lower resolutions are aggregated from this
 const H3_RESOLUTION = 9;
-const CITY_CENTER = { lat: 60.1699, lng: 24.9384 };
+const DESTINATIONS_PATH = join(__dirname, '../data/destinations.json');
+const OUTPUT_DIR = join(__dirname, '../data/hex-scores');
+
+interface Destination {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+}
 
 // Haversine distance in km
 function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
@@ -48,22 +49,34 @@ function estimateTravelTime(distanceKm: number): number {
 }
 
 function main() {
-  console.log('Generating Helsinki hexes...');
-  const hexes = polygonToCells(HELSINKI_POLYGON, H3_RESOLUTION);
-  console.log(`Found ${hexes.length} hexes`);
+  const region = parseRegionArg();
+  const landCoverage = parseLandCoverageArg();
+  console.log(`Generating ${region.name} hexes...`);
+  const regionHexes = generateRegionHexes(region, H3_RESOLUTION);
+  // Same land mask as fetch-travel-times so sample data covers the same hexes
+  const hexes = filterHexesToLand(regionHexes, region, landCoverage);
+  console.log(
+    `Found ${regionHexes.length} hexes, ${hexes.length} with at least ${Math.round(landCoverage * 100)}% land ` +
+      `(${regionHexes.length - hexes.length} sea hexes skipped)`
+  );
 
-  const scores: Record<string, number> = {};
+  const destinations: Destination[] = JSON.parse(readFileSync(DESTINATIONS_PATH, 'utf-8'));
+  mkdirSync(OUTPUT_DIR, { recursive: true });
 
-  for (const hexId of hexes) {
-    const [lat, lng] = cellToLatLng(hexId);
-    const distance = haversineDistance(lat, lng, CITY_CENTER.lat, CITY_CENTER.lng);
-    const travelTime = estimateTravelTime(distance);
-    scores[hexId] = Math.max(5, Math.min(90, travelTime)); // Clamp between 5-90 min
-  }
+  for (const destination of destinations) {
+    const scores: Record<string, number> = {};
+
+    for (const hexId of hexes) {
+      const [lat, lng] = cellToLatLng(hexId);
+      const distance = haversineDistance(lat, lng, destination.lat, destination.lng);
+      const travelTime = estimateTravelTime(distance);
+      scores[hexId] = Math.max(5, Math.min(90, travelTime)); // Clamp between 5-90 min
+    }
 
-  const outputPath = join(__dirname, '../data/hex-scores.json');
-  writeFileSync(outputPath, JSON.stringify(scores, null, 2));
-  console.log(`Saved ${Object.keys(scores).length} hex scores to ${outputPath}`);
+    const outputPath = join(OUTPUT_DIR, `${destination.id}.json`);
+    writeFileSync(outputPath, JSON.stringify(scores, null, 2));
+    console.log(`Saved ${Object.keys(scores).length} hex scores for ${destination.name} to ${outputPath}`);
+  }
 }
 
 main();
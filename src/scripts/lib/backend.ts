@@ -0,0 +1,98 @@
+/**
+ * Travel time backends for the fetch pipeline
+ *
+ * The live backend asks the Digitransit routing API; the GTFS backend routes
+ * offline over a local feed. Both answer the same route requests, so the
+ * pipeline writes identical datasets whichever one is used.
+ */
+
+import { statSync } from 'fs';
+import { basename } from 'path';
+import type { TravelMode } from '../../utils/modes';
+import { fetchTravelTime, type DigitransitConfig, type RouteRequest, type RouteResult } from './digitransit';
+import { findStopsNear, loadTimetable, MAX_ACCESS_METERS, walkingMeters, type TimetableOptions } from './gtfs';
+import { findEarliestArrival, toItineraryDetails } from './raptor';
+
+export interface TravelTimeBackend {
+  name: string;
+  // Stored with every record so stale data can be traced to the API or timetable it came from
+  version: string;
+  // Modes the backend can route
+  modes: TravelMode[];
+  route(request: RouteRequest): Promise<RouteResult>;
+  // Current request budget, for backends that are rate limited
+  rate?(): number;
+}
+
+// Walking the whole way is considered up to this distance
+const MAX_DIRECT_WALK_METERS = 2000;
+
+export function createDigitransitBackend(config: DigitransitConfig): TravelTimeBackend {
+  return {
+    name: `Digitransit API (${config.url})`,
+    version: `digitransit ${config.url}`,
+    modes: ['transit', 'bicycle', 'walk', 'car'],
+    route: (request) => fetchTravelTime(config, request),
+    rate: config.rateLimiter ? () => config.rateLimiter!.rate() : undefined,
+  };
+}
+
+// "2024-03-12T07:30:00+02:00" to seconds after local midnight
+function localSeconds(departureTime: string): number {
+  const [hours, minutes, seconds] = departureTime.slice(11, 19).split(':').map(Number);
+  return hours * 3600 + minutes * 60 + (seconds || 0);
+}
+
+/**
+ * Offline transit routing over a GTFS zip. The timetable is loaded once for
+ * the service day and time window that the requests will cover.
+ */
+export async function createGtfsBackend(path: string, window: TimetableOptions): Promise<TravelTimeBackend> {
+  console.log(`Loading GTFS feed ${path} for ${window.date}...`);
+  const startedAt = Date.now();
+  const timetable = await loadTimetable(path, window);
+  const tripCount = timetable.patterns.reduce((sum, pattern) => sum + pattern.tripCount, 0);
+  console.log(
+    `Loaded ${timetable.stopIds.length} stops, ${timetable.patterns.length} patterns and ${tripCount} trips ` +
+      `in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`
+  );
+
+  // Egress stops only depend on the destination, which repeats for every hex
+  const egressCache = new Map<string, ReturnType<typeof findStopsNear>>();
+
+  // Without feed_info.txt the file name and modification date identify the feed
+  const feedVersion =
+    timetable.feedVersion ?? `${basename(path)} ${statSync(path).mtime.toISOString().slice(0, 10)}`;
+
+  return {
+    name: `GTFS feed (${path})`,
+    version: `gtfs ${feedVersion}`,
+    modes: ['transit'],
+    route: async ({ origin, destination, departureTime }) => {
+      if (departureTime.slice(0, 10) !== timetable.date) {
+        return { status: 'failed', reason: `GTFS timetable is loaded for ${timetable.date}, not ${departureTime}` };
+      }
+
+      const destinationKey = `${destination.lat},${destination.lng}`;
+      if (!egressCache.has(destinationKey)) {
+        egressCache.set(destinationKey, findStopsNear(timetable, destination.lat, destination.lng, MAX_ACCESS_METERS));
+      }
+
+      const journey = findEarliestArrival(timetable, {
+        departure: localSeconds(departureTime),
+        access: findStopsNear(timetable, origin.lat, origin.lng, MAX_ACCESS_METERS),
+        egress: egressCache.get(destinationKey)!,
+        directWalkMeters: walkingMeters(origin.lat, origin.lng, destination.lat, destination.lng, MAX_DIRECT_WALK_METERS),
+      });
+
+      if (!journey) {
+        return { status: 'unreachable' };
+      }
+      return {
+        status: 'ok',
+        minutes: Math.round((journey.arrival - journey.departure) / 60),
+        itinerary: toItineraryDetails(timetable, journey),
+      };
+    },
+  };
+}
@@ -0,0 +1,346 @@
+/**
+ * Land polygons from OSM coastline ways
+ *
+ * OSM coastlines follow the convention: water is on the right side when following the way direction.
+ * Ways are joined head to tail into rings where they close; the rest are clipped against the
+ * region bounds and closed along the bounds edges, walking counter-clockwise so the land stays
+ * on the left. Land rings therefore come out counter-clockwise, and coastline rings traced
+ * clockwise (enclosed bays) and lakes become clockwise inner rings of the land around them.
+ */
+
+import type { MapBounds } from '../../utils/h3';
+import {
+  isCounterClockwise,
+  isPointInRing,
+  polygonAreaSquareMeters,
+  ringAreaSquareMeters,
+  type LngLat,
+} from '../../utils/geometry';
+
+interface OsmGeometryPoint {
+  lat: number;
+  lon: number;
+}
+
+export interface OsmWay {
+  type: 'way';
+  id: number;
+  geometry: OsmGeometryPoint[];
+  nodes: number[];
+  tags?: Record<string, string>;
+}
+
+export interface OsmData {
+  elements: OsmWay[];
+}
+
+export interface LandPolygon {
+  rings: LngLat[][]; // Outer ring counter-clockwise, holes clockwise
+  area: number; // m², holes excluded
+}
+
+// What went into the land polygons, for the script's report
+export interface CoastlineStats {
+  coastlines: number;
+  lakes: number;
+  rings: number; // Coastline rings closed within the data
+  chains: number; // Coastlines left open
+  pieces: number; // Parts of open coastlines crossing the bounds
+  truncated: number; // Parts ending inside the bounds, skipped
+  innerRings: number;
+  insideLakes: number;
+  unassigned: number; // Inner rings outside any land, skipped
+}
+
+// Part of a coastline inside the bounds, running from one bounds edge to another
+interface Piece {
+  coords: LngLat[];
+  entry: number; // Position of the first point along the bounds perimeter
+  exit: number; // Position of the last point along the bounds perimeter
+}
+
+// Distance in degrees within which a point counts as lying on the bounds
+const EDGE_EPSILON = 1e-9;
+
+function coordKey(coord: LngLat): string {
+  return `${coord[0].toFixed(7)},${coord[1].toFixed(7)}`;
+}
+
+function isClosed(coords: LngLat[]): boolean {
+  return coords.length >= 4 && coordKey(coords[0]) === coordKey(coords[coords.length - 1]);
+}
+
+function isInside([x, y]: LngLat, bounds: MapBounds): boolean {
+  return x >= bounds.west && x <= bounds.east && y >= bounds.south && y <= bounds.north;
+}
+
+/**
+ * Join coastline ways head to tail. Ways are never reversed, since their
+ * direction tells which side is water. Returns the closed rings and the
+ * chains that could not be closed within the data.
+ */
+function mergeWays(ways: LngLat[][]): { rings: LngLat[][]; chains: LngLat[][] } {
+  const rings: LngLat[][] = [];
+  const chains: LngLat[][] = [];
+  const used = new Set<number>();
+
+  // Ways by the key of their first point
+  const startIndex = new Map<string, number[]>();
+  ways.forEach((way, i) => {
+    const key = coordKey(way[0]);
+    if (!startIndex.has(key)) startIndex.set(key, []);
+    startIndex.get(key)!.push(i);
+  });
+
+  // Prefer starting from ways that nothing leads into, so chains are built from their beginning
+  const endKeys = new Set(ways.map((way) => coordKey(way[way.length - 1])));
+  const order = ways
+    .map((_, i) => i)
+    .sort((a, b) => Number(endKeys.has(coordKey(ways[a][0]))) - Number(endKeys.has(coordKey(ways[b][0]))));
+
+  for (const i of order) {
+    if (used.has(i)) continue;
+    used.add(i);
+    const chain: LngLat[] = [...ways[i]];
+
+    while (!isClosed(chain)) {
+      const next = (startIndex.get(coordKey(chain[chain.length - 1])) ?? []).find((j) => !used.has(j));
+      if (next === undefined) break;
+      used.add(next);
+      chain.push(...ways[next].slice(1)); // Skip the shared first point
+    }
+
+    (isClosed(chain) ? rings : chains).push(chain);
+  }
+
+  return { rings, chains };
+}
+
+/**
+ * Parameter range [t0, t1] of the segment a-b inside the bounds (Liang-Barsky), or null
+ */
+function clipSegment(a: LngLat, b: LngLat, bounds: MapBounds): [number, number] | null {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  let t0 = 0;
+  let t1 = 1;
+  const edges: [number, number][] = [
+    [-dx, a[0] - bounds.west],
+    [dx, bounds.east - a[0]],
+    [-dy, a[1] - bounds.south],
+    [dy, bounds.north - a[1]],
+  ];
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return null;
+      continue;
+    }
+    const r = q / p;
+    if (p < 0) {
+      if (r > t1) return null;
+      t0 = Math.max(t0, r);
+    } else {
+      if (r < t0) return null;
+      t1 = Math.min(t1, r);
+    }
+  }
+  return [t0, t1];
+}
+
+function lerp(a: LngLat, b: LngLat, t: number): LngLat {
+  return [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+}
+
+/**
+ * Cut a line into its parts inside the bounds
+ */
+function clipLine(coords: LngLat[], bounds: MapBounds): LngLat[][] {
+  const parts: LngLat[][] = [];
+  let current: LngLat[] | null = null;
+
+  for (let i = 0; i < coords.length - 1; i++) {
+    const clip = clipSegment(coords[i], coords[i + 1], bounds);
+    if (!clip) {
+      if (current) parts.push(current);
+      current = null;
+      continue;
+    }
+
+    const [t0, t1] = clip;
+    current ??= [lerp(coords[i], coords[i + 1], t0)];
+    const end = lerp(coords[i], coords[i + 1], t1);
+    if (coordKey(end) !== coordKey(current[current.length - 1])) {
+      current.push(end);
+    }
+    if (t1 < 1) {
+      parts.push(current);
+      current = null;
+    }
+  }
+  if (current) parts.push(current);
+
+  return parts.filter((part) => part.length >= 2);
+}
+
+/**
+ * Position of a point on the bounds edge, measured counter-clockwise from the
+ * south-west corner; null when the point is not on the edge
+ */
+function perimeterPosition([x, y]: LngLat, bounds: MapBounds): number | null {
+  const width = bounds.east - bounds.west;
+  const height = bounds.north - bounds.south;
+  if (Math.abs(y - bounds.south) < EDGE_EPSILON) return x - bounds.west;
+  if (Math.abs(x - bounds.east) < EDGE_EPSILON) return width + (y - bounds.south);
+  if (Math.abs(y - bounds.north) < EDGE_EPSILON) return width + height + (bounds.east - x);
+  if (Math.abs(x - bounds.west) < EDGE_EPSILON) return 2 * width + height + (bounds.north - y);
+  return null;
+}
+
+/**
+ * Close pieces into land rings: from where a piece leaves the bounds, follow
+ * the edge counter-clockwise (land on the left) to the next piece entering
+ */
+function closeAlongBounds(pieces: Piece[], bounds: MapBounds): LngLat[][] {
+  const width = bounds.east - bounds.west;
+  const height = bounds.north - bounds.south;
+  const perimeter = 2 * (width + height);
+  const corners: { position: number; coord: LngLat }[] = [
+    { position: width, coord: [bounds.east, bounds.south] },
+    { position: width + height, coord: [bounds.east, bounds.north] },
+    { position: 2 * width + height, coord: [bounds.west, bounds.north] },
+    { position: perimeter, coord: [bounds.west, bounds.south] },
+  ];
+  const distance = (from: number, to: number) => (to - from + perimeter) % perimeter;
+
+  const rings: LngLat[][] = [];
+  const used = new Set<Piece>();
+
+  for (const first of pieces) {
+    if (used.has(first)) continue;
+    const ring: LngLat[] = [];
+    let piece = first;
+
+    while (true) {
+      used.add(piece);
+      ring.push(...piece.coords);
+
+      // Next entry counter-clockwise from this exit; the first piece closes the ring
+      const candidates = pieces.filter((p) => p === first || !used.has(p));
+      const next = candidates.reduce((best, p) =>
+        distance(piece.exit, p.entry) < distance(piece.exit, best.entry) ? p : best
+      );
+
+      const gap = distance(piece.exit, next.entry);
+      const passed = corners
+        .map((corner) => ({ ...corner, offset: distance(piece.exit, corner.position % perimeter) }))
+        .filter((corner) => corner.offset > 0 && corner.offset < gap)
+        .sort((a, b) => a.offset - b.offset);
+      ring.push(...passed.map((corner) => corner.coord));
+
+      if (next === first) break;
+      piece = next;
+    }
+
+    ring.push(ring[0]);
+    rings.push(ring);
+  }
+
+  return rings;
+}
+
+/**
+ * Build land polygons from coastline ways and closed lake ways (natural=water)
+ * within the bounds. Polygons smaller than minArea m² are dropped; the rest
+ * are returned largest first.
+ */
+export function buildLandPolygons(
+  osmData: OsmData,
+  bounds: MapBounds,
+  minArea: number
+): { polygons: LandPolygon[]; stats: CoastlineStats } {
+  const ways = osmData.elements.filter((element) => element.type === 'way' && element.geometry?.length >= 2);
+  const toCoords = (way: OsmWay): LngLat[] => way.geometry.map((p) => [p.lon, p.lat]);
+  // Untagged ways come from coastline-only queries
+  const coastlines = ways.filter((way) => !way.tags || way.tags.natural === 'coastline').map(toCoords);
+  const lakes = ways
+    .filter((way) => way.tags?.natural === 'water')
+    .map(toCoords)
+    .filter(isClosed);
+
+  const { rings, chains } = mergeWays(coastlines);
+
+  // Rings wholly inside the bounds are kept; everything else is cut at the bounds.
+  // Closed rings are rotated to start outside so no piece is split at the seam.
+  const landRings: LngLat[][] = [];
+  const holes: LngLat[][] = [];
+  const lines: LngLat[][] = [...chains];
+  for (const ring of rings) {
+    const outside = ring.findIndex((coord) => !isInside(coord, bounds));
+    if (outside === -1) {
+      (isCounterClockwise(ring) ? landRings : holes).push(ring);
+    } else {
+      lines.push([...ring.slice(outside, -1), ...ring.slice(0, outside + 1)]);
+    }
+  }
+
+  const pieces: Piece[] = [];
+  let truncated = 0;
+  for (const part of lines.flatMap((line) => clipLine(line, bounds))) {
+    const entry = perimeterPosition(part[0], bounds);
+    const exit = perimeterPosition(part[part.length - 1], bounds);
+    if (entry === null || exit === null) {
+      truncated++; // Ends inside the bounds: the extract is missing the rest of the coastline
+      continue;
+    }
+    pieces.push({ coords: part, entry, exit });
+  }
+
+  if (pieces.length > 0) {
+    landRings.push(...closeAlongBounds(pieces, bounds));
+  } else if (landRings.length === 0) {
+    // No coastline crosses the bounds and there are no islands: the whole area is land
+    landRings.push([
+      [bounds.west, bounds.south],
+      [bounds.east, bounds.south],
+      [bounds.east, bounds.north],
+      [bounds.west, bounds.north],
+      [bounds.west, bounds.south],
+    ]);
+  }
+
+  // Lakes inside the bounds cut holes into the land around them (clockwise, per RFC 7946)
+  const insideLakes = lakes.filter((lake) => lake.every((coord) => isInside(coord, bounds)));
+  holes.push(...insideLakes.map((lake) => (isCounterClockwise(lake) ? [...lake].reverse() : lake)));
+
+  // Each hole belongs to the smallest land ring around it
+  const polygons = landRings.map((ring) => ({ rings: [ring], outerArea: ringAreaSquareMeters(ring) }));
+  let unassigned = 0;
+  for (const hole of holes) {
+    const owner = polygons
+      .filter((polygon) => isPointInRing(hole[0], polygon.rings[0]))
+      .sort((a, b) => a.outerArea - b.outerArea)[0];
+    if (owner) {
+      owner.rings.push(hole);
+    } else {
+      unassigned++;
+    }
+  }
+
+  return {
+    polygons: polygons
+      .map((polygon) => ({ rings: polygon.rings, area: polygonAreaSquareMeters(polygon.rings) }))
+      .filter((polygon) => polygon.area >= minArea)
+      .sort((a, b) => b.area - a.area),
+    stats: {
+      coastlines: coastlines.length,
+      lakes: lakes.length,
+      rings: rings.length,
+      chains: chains.length,
+      pieces: pieces.length,
+      truncated,
+      innerRings: holes.length - unassigned,
+      insideLakes: insideLakes.length,
+      unassigned,
+    },
+  };
+}
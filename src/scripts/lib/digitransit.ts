@@ -0,0 +1,205 @@
+/**
+ * Digitransit routing API client used by the fetch scripts
+ *
+ * Distinguishes between an origin that has no route ("unreachable") and a request
+ * that could not be answered ("failed"). Transient errors (HTTP 429/5xx, network
+ * errors) are retried with exponential backoff, honouring Retry-After.
+ */
+
+import type { TravelMode } from '../../utils/modes';
+import type { ItineraryDetails } from '../../utils/scoring';
+import type { RateLimiter } from './rate-limiter';
+
+export const DEFAULT_API_URL = 'https://api.digitransit.fi/routing/v2/hsl/gtfs/v1';
+
+export interface DigitransitConfig {
+  url: string;
+  apiKey?: string;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  rateLimiter?: RateLimiter;
+}
+
+export const DEFAULT_RETRY = {
+  maxRetries: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 60000,
+};
+
+export interface RouteRequest {
+  origin: { lat: number; lng: number };
+  destination: { lat: number; lng: number };
+  mode: TravelMode;
+  departureTime: string; // ISO 8601 with offset
+}
+
+export type RouteResult =
+  | { status: 'ok'; minutes: number; itinerary: ItineraryDetails }
+  | { status: 'unreachable' }
+  | { status: 'failed'; reason: string };
+
+// planConnection mode selection; transit uses the API default (transit with walking access)
+const MODE_QUERY_ARGS: Record<TravelMode, string> = {
+  transit: '',
+  bicycle: 'modes: {directOnly: true, direct: [BICYCLE]}',
+  walk: 'modes: {directOnly: true, direct: [WALK]}',
+  car: 'modes: {directOnly: true, direct: [CAR]}',
+};
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+// Responses that mean we are sending too fast
+const THROTTLE_STATUS = new Set([429, 503]);
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function buildPlanConnectionQuery({ origin, destination, mode, departureTime }: RouteRequest): string {
+  return `
+    {
+      planConnection(
+        origin: {location: {coordinate: {latitude: ${origin.lat}, longitude: ${origin.lng}}}}
+        destination: {location: {coordinate: {latitude: ${destination.lat}, longitude: ${destination.lng}}}}
+        dateTime: {earliestDeparture: "${departureTime}"}
+        ${MODE_QUERY_ARGS[mode]}
+        first: 1
+      ) {
+        edges {
+          node {
+            start
+            end
+            duration
+            numberOfTransfers
+            walkDistance
+            waitingTime
+            legs {
+              mode
+              route {
+                shortName
+              }
+            }
+          }
+        }
+      }
+    }
+  `;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return null;
+}
+
+interface ItineraryNode {
+  start?: string;
+  end?: string;
+  duration: number;
+  numberOfTransfers?: number;
+  walkDistance?: number;
+  waitingTime?: number;
+  legs?: { mode: string; route?: { shortName?: string } | null }[];
+}
+
+function toItineraryDetails(node: ItineraryNode, departureTime: string): ItineraryDetails {
+  const legs = node.legs ?? [];
+  const start = Date.parse(node.start ?? '');
+  // Time spent at the origin before the itinerary starts counts as waiting too
+  const initialWaitSeconds = Number.isNaN(start) ? 0 : Math.max(0, (start - Date.parse(departureTime)) / 1000);
+
+  return {
+    transfers: node.numberOfTransfers ?? 0,
+    walkDistance: Math.round(node.walkDistance ?? 0),
+    waitingTime: Math.round(((node.waitingTime ?? 0) + initialWaitSeconds) / 60),
+    firstLegMode: legs[0]?.mode ?? 'WALK',
+    lines: legs
+      .filter((leg) => leg.route)
+      .map((leg) => ({ mode: leg.mode, name: leg.route?.shortName ?? '' })),
+  };
+}
+
+function backoffDelay(config: DigitransitConfig, attempt: number): number {
+  const exponential = config.baseDelayMs * 2 ** attempt;
+  // Full jitter keeps parallel runs from retrying in lockstep
+  return Math.min(config.maxDelayMs, Math.random() * exponential);
+}
+
+/**
+ * Fetch the travel time in minutes when leaving the origin at the given time.
+ * Counts from the requested departure to arrival, so waiting for the first
+ * vehicle is included and infrequent service shows up in the numbers.
+ */
+export async function fetchTravelTime(config: DigitransitConfig, request: RouteRequest): Promise<RouteResult> {
+  const body = JSON.stringify({ query: buildPlanConnectionQuery(request) });
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) {
+    headers['digitransit-subscription-key'] = config.apiKey;
+  }
+
+  let lastError = '';
+
+  for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+    let retryAfterMs: number | null = null;
+
+    await config.rateLimiter?.acquire();
+
+    try {
+      const response = await fetch(config.url, { method: 'POST', headers, body });
+
+      if (!response.ok) {
+        lastError = `HTTP ${response.status} ${response.statusText}`;
+        if (!RETRYABLE_STATUS.has(response.status)) {
+          return { status: 'failed', reason: lastError };
+        }
+        retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+        if (THROTTLE_STATUS.has(response.status)) {
+          config.rateLimiter?.throttled(retryAfterMs);
+        }
+      } else {
+        config.rateLimiter?.succeeded();
+        const data = await response.json();
+
+        if (data.errors) {
+          // Query or server-side routing errors are not fixed by asking again
+          return { status: 'failed', reason: `GraphQL errors: ${JSON.stringify(data.errors)}` };
+        }
+
+        const edges = data.data?.planConnection?.edges;
+        if (!edges || edges.length === 0) {
+          // No route found - location might be unreachable with this mode
+          return { status: 'unreachable' };
+        }
+
+        const node: ItineraryNode = edges[0].node;
+        const arrival = Date.parse(node.end ?? '');
+        const durationSeconds = Number.isNaN(arrival)
+          ? node.duration
+          : (arrival - Date.parse(request.departureTime)) / 1000;
+        return {
+          status: 'ok',
+          minutes: Math.round(durationSeconds / 60), // Convert to minutes
+          itinerary: toItineraryDetails(node, request.departureTime),
+        };
+      }
+    } catch (error) {
+      lastError = `Fetch error: ${error instanceof Error ? error.message : String(error)}`;
+    }
+
+    if (attempt < config.maxRetries) {
+      await sleep(retryAfterMs ?? backoffDelay(config, attempt));
+    }
+  }
+
+  return { status: 'failed', reason: `${lastError} (after ${config.maxRetries} retries)` };
+}
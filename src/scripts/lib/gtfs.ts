@@ -0,0 +1,398 @@
+/**
+ * GTFS feed loading for the offline router
+ *
+ * Reads one service day of a GTFS zip (e.g. the HSL feed) into a compact
+ * timetable: trips are grouped into patterns (a route with a fixed stop
+ * sequence) and only trips that run inside the requested time window are kept.
+ * Walking between stops uses straight-line distances with a detour factor.
+ */
+
+import { listZipEntries, readZipLines, type ZipEntry } from './zip';
+
+export const WALK_SPEED = 1.2; // m/s
+export const WALK_DETOUR_FACTOR = 1.3; // Street distance compared to straight-line distance
+export const MAX_ACCESS_METERS = 1000; // Walk to the first stop and from the last one
+export const MAX_TRANSFER_METERS = 400; // Walk between stops when changing vehicles
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+const GRID_CELL_DEGREES = 0.01; // Spatial index cell, roughly 1.1 km north-south
+
+/**
+ * Trips of one route that visit the same stops in the same order.
+ * Times are stored trip by trip (trip * stops.length + stop index), in seconds
+ * after midnight of the service day, with trips sorted so that no trip
+ * overtakes an earlier one.
+ */
+export interface Pattern {
+  mode: string; // Digitransit leg mode, e.g. BUS
+  name: string; // Route short name
+  stops: Int32Array;
+  tripCount: number;
+  arrivals: Int32Array;
+  departures: Int32Array;
+}
+
+export interface StopDistance {
+  stop: number;
+  meters: number;
+}
+
+export interface Timetable {
+  date: string; // YYYY-MM-DD
+  feedVersion: string | null; // From feed_info.txt when the feed has one
+  stopIds: string[];
+  stopLat: Float64Array;
+  stopLng: Float64Array;
+  patterns: Pattern[];
+  // Patterns serving each stop, with the stop's position in the pattern
+  stopPatterns: { pattern: number; index: number }[][];
+  // Stops within walking distance of each stop
+  transfers: StopDistance[][];
+  grid: Map<string, number[]>;
+}
+
+export interface TimetableOptions {
+  date: string; // YYYY-MM-DD
+  startSeconds: number; // Earliest departure of interest
+  endSeconds: number; // Latest arrival of interest
+}
+
+// GTFS route_type (basic and extended types) to Digitransit leg modes
+function routeTypeToMode(routeType: number): string {
+  if (routeType === 0 || (routeType >= 900 && routeType < 1000)) return 'TRAM';
+  if (routeType === 1 || (routeType >= 400 && routeType < 500)) return 'SUBWAY';
+  if (routeType === 2 || (routeType >= 100 && routeType < 200)) return 'RAIL';
+  if (routeType === 4 || (routeType >= 1000 && routeType < 1300)) return 'FERRY';
+  return 'BUS';
+}
+
+/**
+ * Split one CSV line, honouring quoted fields
+ */
+export function parseCsvLine(line: string): string[] {
+  if (!line.includes('"')) {
+    return line.split(',');
+  }
+
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Stream the rows of a GTFS file as records keyed by column name
+ */
+async function* readGtfsFile(
+  path: string,
+  entries: Map<string, ZipEntry>,
+  name: string,
+  required = true
+): AsyncGenerator<Record<string, string>> {
+  const entry = entries.get(name);
+  if (!entry) {
+    if (required) throw new Error(`${name} missing from GTFS feed ${path}`);
+    return;
+  }
+
+  let columns: string[] | null = null;
+  for await (const line of readZipLines(path, entry)) {
+    if (line.trim() === '') continue;
+    const fields = parseCsvLine(line);
+    if (!columns) {
+      columns = fields.map((column) => column.trim());
+      continue;
+    }
+    const row: Record<string, string> = {};
+    columns.forEach((column, i) => (row[column] = fields[i]?.trim() ?? ''));
+    yield row;
+  }
+}
+
+// "HH:MM:SS" (hours may exceed 24) to seconds after midnight
+function parseGtfsTime(time: string): number | null {
+  const match = /^(\d+):(\d{2}):(\d{2})$/.exec(time);
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+function compactDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Service ids running on the given day and the day before. Trips of the day
+ * before can still be running after midnight (times past 24:00).
+ */
+async function loadActiveServices(
+  path: string,
+  entries: Map<string, ZipEntry>,
+  date: string
+): Promise<Map<string, number[]>> {
+  const day = new Date(`${date}T12:00:00Z`);
+  const previous = new Date(day.getTime() - SECONDS_PER_DAY * 1000);
+  const weekdays = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+  const serviceDays = [
+    { date: compactDate(day), weekday: weekdays[day.getUTCDay()], offset: 0 },
+    { date: compactDate(previous), weekday: weekdays[previous.getUTCDay()], offset: -SECONDS_PER_DAY },
+  ];
+
+  const active = serviceDays.map(() => new Set<string>());
+
+  for await (const row of readGtfsFile(path, entries, 'calendar.txt', false)) {
+    serviceDays.forEach((serviceDay, i) => {
+      if (row[serviceDay.weekday] === '1' && row.start_date <= serviceDay.date && serviceDay.date <= row.end_date) {
+        active[i].add(row.service_id);
+      }
+    });
+  }
+
+  for await (const row of readGtfsFile(path, entries, 'calendar_dates.txt', false)) {
+    serviceDays.forEach((serviceDay, i) => {
+      if (row.date !== serviceDay.date) return;
+      if (row.exception_type === '1') active[i].add(row.service_id);
+      if (row.exception_type === '2') active[i].delete(row.service_id);
+    });
+  }
+
+  // Time offsets at which each service runs relative to the requested day
+  const offsets = new Map<string, number[]>();
+  serviceDays.forEach((serviceDay, i) => {
+    for (const serviceId of active[i]) {
+      offsets.set(serviceId, [...(offsets.get(serviceId) ?? []), serviceDay.offset]);
+    }
+  });
+  return offsets;
+}
+
+/**
+ * Straight-line distance in meters
+ */
+export function distanceMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const R = 6371000;
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLng = ((lng2 - lng1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Walking distance in meters, or null when it is beyond maxMeters
+ */
+export function walkingMeters(lat1: number, lng1: number, lat2: number, lng2: number, maxMeters: number): number | null {
+  const meters = distanceMeters(lat1, lng1, lat2, lng2) * WALK_DETOUR_FACTOR;
+  return meters <= maxMeters ? meters : null;
+}
+
+function gridKey(lat: number, lng: number): string {
+  return `${Math.floor(lat / GRID_CELL_DEGREES)},${Math.floor(lng / GRID_CELL_DEGREES)}`;
+}
+
+/**
+ * Stops within walking distance of a coordinate
+ */
+export function findStopsNear(timetable: Timetable, lat: number, lng: number, maxMeters: number): StopDistance[] {
+  const latCells = Math.ceil(maxMeters / 111000 / GRID_CELL_DEGREES);
+  const lngCells = Math.ceil(maxMeters / (111000 * Math.cos((lat * Math.PI) / 180)) / GRID_CELL_DEGREES);
+  const cellLat = Math.floor(lat / GRID_CELL_DEGREES);
+  const cellLng = Math.floor(lng / GRID_CELL_DEGREES);
+
+  const result: StopDistance[] = [];
+  for (let dLat = -latCells; dLat <= latCells; dLat++) {
+    for (let dLng = -lngCells; dLng <= lngCells; dLng++) {
+      for (const stop of timetable.grid.get(`${cellLat + dLat},${cellLng + dLng}`) ?? []) {
+        const meters = walkingMeters(lat, lng, timetable.stopLat[stop], timetable.stopLng[stop], maxMeters);
+        if (meters !== null) {
+          result.push({ stop, meters });
+        }
+      }
+    }
+  }
+  return result;
+}
+
+interface TripStopTimes {
+  routeId: string;
+  offsets: number[];
+  sequence: number[];
+  stops: number[];
+  arrivals: number[];
+  departures: number[];
+}
+
+/**
+ * Load the timetable of one service day, keeping trips that run between
+ * startSeconds and endSeconds
+ */
+export async function loadTimetable(path: string, options: TimetableOptions): Promise<Timetable> {
+  const entries = new Map(listZipEntries(path).map((entry) => [entry.name.replace(/^.*\//, ''), entry]));
+
+  const services = await loadActiveServices(path, entries, options.date);
+
+  let feedVersion: string | null = null;
+  for await (const row of readGtfsFile(path, entries, 'feed_info.txt', false)) {
+    feedVersion = row.feed_version || null;
+  }
+
+  const routes = new Map<string, { mode: string; name: string }>();
+  for await (const row of readGtfsFile(path, entries, 'routes.txt')) {
+    routes.set(row.route_id, {
+      mode: routeTypeToMode(Number(row.route_type)),
+      name: row.route_short_name || row.route_long_name || row.route_id,
+    });
+  }
+
+  const trips = new Map<string, TripStopTimes>();
+  for await (const row of readGtfsFile(path, entries, 'trips.txt')) {
+    const offsets = services.get(row.service_id);
+    if (!offsets || !routes.has(row.route_id)) continue;
+    trips.set(row.trip_id, { routeId: row.route_id, offsets, sequence: [], stops: [], arrivals: [], departures: [] });
+  }
+
+  // Only boardable stops; stations (location_type 1) and entrances never appear in stop_times
+  const stopIds: string[] = [];
+  const stopLat: number[] = [];
+  const stopLng: number[] = [];
+  const stopIndex = new Map<string, number>();
+  for await (const row of readGtfsFile(path, entries, 'stops.txt')) {
+    if (row.location_type && row.location_type !== '0') continue;
+    stopIndex.set(row.stop_id, stopIds.length);
+    stopIds.push(row.stop_id);
+    stopLat.push(Number(row.stop_lat));
+    stopLng.push(Number(row.stop_lon));
+  }
+
+  let incompleteTrips = 0;
+  for await (const row of readGtfsFile(path, entries, 'stop_times.txt')) {
+    const trip = trips.get(row.trip_id);
+    if (!trip) continue;
+    const stop = stopIndex.get(row.stop_id);
+    const arrival = parseGtfsTime(row.arrival_time || row.departure_time);
+    const departure = parseGtfsTime(row.departure_time || row.arrival_time);
+    if (stop === undefined || arrival === null || departure === null) {
+      // Trips without times at every stop would need interpolation; leave them out
+      trips.delete(row.trip_id);
+      incompleteTrips++;
+      continue;
+    }
+    trip.sequence.push(Number(row.stop_sequence));
+    trip.stops.push(stop);
+    trip.arrivals.push(arrival);
+    trip.departures.push(departure);
+  }
+  if (incompleteTrips > 0) {
+    console.warn(`Skipped ${incompleteTrips} trips with missing stops or times`);
+  }
+
+  // Group trips running in the window by route and stop sequence
+  const groups = new Map<string, { routeId: string; stops: number[]; runs: { arrivals: number[]; departures: number[] }[] }>();
+  for (const trip of trips.values()) {
+    if (trip.stops.length < 2) continue;
+    const order = trip.sequence.map((_, i) => i).sort((a, b) => trip.sequence[a] - trip.sequence[b]);
+    const stops = order.map((i) => trip.stops[i]);
+    const arrivals = order.map((i) => trip.arrivals[i]);
+    const departures = order.map((i) => trip.departures[i]);
+
+    for (const offset of trip.offsets) {
+      const firstDeparture = departures[0] + offset;
+      const lastArrival = arrivals[arrivals.length - 1] + offset;
+      if (lastArrival < options.startSeconds || firstDeparture > options.endSeconds) continue;
+
+      const key = `${trip.routeId}|${stops.join(',')}`;
+      if (!groups.has(key)) groups.set(key, { routeId: trip.routeId, stops, runs: [] });
+      groups.get(key)!.runs.push({
+        arrivals: arrivals.map((t) => t + offset),
+        departures: departures.map((t) => t + offset),
+      });
+    }
+  }
+  trips.clear();
+
+  // Split each group so that trips never overtake each other, which lets the
+  // router find the next trip at any stop by binary search
+  const patterns: Pattern[] = [];
+  for (const group of groups.values()) {
+    const route = routes.get(group.routeId)!;
+    const lanes: { arrivals: number[]; departures: number[] }[][] = [];
+    group.runs.sort((a, b) => a.departures[0] - b.departures[0]);
+
+    for (const run of group.runs) {
+      const lane = lanes.find((candidate) => {
+        const last = candidate[candidate.length - 1];
+        return run.departures.every((t, i) => t >= last.departures[i] && run.arrivals[i] >= last.arrivals[i]);
+      });
+      if (lane) {
+        lane.push(run);
+      } else {
+        lanes.push([run]);
+      }
+    }
+
+    for (const lane of lanes) {
+      patterns.push({
+        mode: route.mode,
+        name: route.name,
+        stops: Int32Array.from(group.stops),
+        tripCount: lane.length,
+        arrivals: Int32Array.from(lane.flatMap((run) => run.arrivals)),
+        departures: Int32Array.from(lane.flatMap((run) => run.departures)),
+      });
+    }
+  }
+
+  const stopPatterns: { pattern: number; index: number }[][] = stopIds.map(() => []);
+  patterns.forEach((pattern, p) => {
+    // The last stop is never a boarding point
+    for (let i = 0; i < pattern.stops.length - 1; i++) {
+      stopPatterns[pattern.stops[i]].push({ pattern: p, index: i });
+    }
+  });
+
+  const grid = new Map<string, number[]>();
+  stopIds.forEach((_, stop) => {
+    const key = gridKey(stopLat[stop], stopLng[stop]);
+    if (!grid.has(key)) grid.set(key, []);
+    grid.get(key)!.push(stop);
+  });
+
+  const timetable: Timetable = {
+    date: options.date,
+    feedVersion,
+    stopIds,
+    stopLat: Float64Array.from(stopLat),
+    stopLng: Float64Array.from(stopLng),
+    patterns,
+    stopPatterns,
+    transfers: [],
+    grid,
+  };
+
+  timetable.transfers = stopIds.map((_, stop) =>
+    findStopsNear(timetable, stopLat[stop], stopLng[stop], MAX_TRANSFER_METERS).filter((t) => t.stop !== stop)
+  );
+
+  return timetable;
+}
@@ -0,0 +1,25 @@
+/**
+ * Run an async worker over a list of items with bounded concurrency
+ *
+ * Items are handed out in order; onDone is called as each one finishes, which
+ * may be out of order.
+ */
+export async function runPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>,
+  onDone?: (item: T, index: number) => void
+): Promise<void> {
+  let next = 0;
+
+  const runWorker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      await worker(items[index], index);
+      onDone?.(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, runWorker);
+  await Promise.all(workers);
+}
@@ -0,0 +1,251 @@
+/**
+ * RAPTOR earliest-arrival router over a GTFS timetable
+ *
+ * Works in rounds: round k finds the best arrival at every stop using at most
+ * k vehicles. Each round scans the patterns serving stops improved in the
+ * previous round, then relaxes walking transfers. Arrivals that cannot beat
+ * the best arrival at the destination so far are pruned.
+ */
+
+import type { ItineraryDetails } from '../../utils/scoring';
+import { WALK_SPEED, type StopDistance, type Timetable } from './gtfs';
+
+export const MAX_ROUNDS = 5; // At most four transfers
+export const TRANSFER_SLACK_SECONDS = 60; // Minimum time to change vehicles at a stop
+
+const NONE = 0;
+const ACCESS = 1;
+const TRIP = 2;
+const TRANSFER = 3;
+
+export interface RaptorQuery {
+  departure: number; // Seconds after midnight
+  access: StopDistance[]; // Stops reachable on foot from the origin
+  egress: StopDistance[]; // Stops from which the destination is reachable on foot
+  directWalkMeters: number | null; // Walking the whole way, when close enough
+}
+
+export type JourneyLeg =
+  | { kind: 'walk'; meters: number }
+  | { kind: 'trip'; pattern: number; trip: number; boardIndex: number; alightIndex: number };
+
+export interface Journey {
+  departure: number;
+  arrival: number;
+  legs: JourneyLeg[];
+}
+
+function walkSeconds(meters: number): number {
+  return Math.round(meters / WALK_SPEED);
+}
+
+/**
+ * Index of the first trip leaving the pattern's stop at or after the given time
+ */
+function findTrip(timetable: Timetable, pattern: number, index: number, time: number): number {
+  const { departures, stops, tripCount } = timetable.patterns[pattern];
+  const width = stops.length;
+  let low = 0;
+  let high = tripCount;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (departures[mid * width + index] < time) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low < tripCount ? low : -1;
+}
+
+/**
+ * Earliest arrival at the destination, or null when it cannot be reached
+ */
+export function findEarliestArrival(timetable: Timetable, query: RaptorQuery): Journey | null {
+  const stopCount = timetable.stopIds.length;
+  const best = new Float64Array(stopCount).fill(Infinity);
+  const labels: Float64Array[] = [];
+  // How each round's label was reached, for rebuilding the journey
+  const parentKind: Int8Array[] = [];
+  const parentStop: Int32Array[] = [];
+  const parentPattern: Int32Array[] = [];
+  const parentTrip: Int32Array[] = [];
+  const parentBoard: Int32Array[] = [];
+  const parentAlight: Int32Array[] = [];
+  const parentMeters: Float64Array[] = [];
+
+  const addRound = () => {
+    const previous = labels[labels.length - 1];
+    labels.push(previous ? Float64Array.from(previous) : new Float64Array(stopCount).fill(Infinity));
+    parentKind.push(new Int8Array(stopCount));
+    parentStop.push(new Int32Array(stopCount));
+    parentPattern.push(new Int32Array(stopCount));
+    parentTrip.push(new Int32Array(stopCount));
+    parentBoard.push(new Int32Array(stopCount));
+    parentAlight.push(new Int32Array(stopCount));
+    parentMeters.push(new Float64Array(stopCount));
+  };
+
+  const egressMeters = new Map(query.egress.map((e) => [e.stop, e.meters]));
+  let targetArrival = query.directWalkMeters !== null ? query.departure + walkSeconds(query.directWalkMeters) : Infinity;
+  let target: { round: number; stop: number } | null = null;
+
+  // Round 0: walk from the origin to nearby stops
+  addRound();
+  let marked = new Set<number>();
+  for (const { stop, meters } of query.access) {
+    const arrival = query.departure + walkSeconds(meters);
+    if (arrival < labels[0][stop]) {
+      labels[0][stop] = arrival;
+      best[stop] = arrival;
+      parentKind[0][stop] = ACCESS;
+      parentMeters[0][stop] = meters;
+      marked.add(stop);
+    }
+  }
+
+  for (let k = 1; k <= MAX_ROUNDS && marked.size > 0; k++) {
+    addRound();
+    const current = labels[k];
+    const previous = labels[k - 1];
+    const slack = k > 1 ? TRANSFER_SLACK_SECONDS : 0;
+
+    // Patterns to scan, from the earliest marked stop along each of them
+    const queue = new Map<number, number>();
+    for (const stop of marked) {
+      for (const { pattern, index } of timetable.stopPatterns[stop]) {
+        const queued = queue.get(pattern);
+        if (queued === undefined || index < queued) queue.set(pattern, index);
+      }
+    }
+    marked = new Set();
+
+    for (const [p, startIndex] of queue) {
+      const pattern = timetable.patterns[p];
+      const width = pattern.stops.length;
+      let trip = -1;
+      let boardIndex = -1;
+
+      for (let i = startIndex; i < width; i++) {
+        const stop = pattern.stops[i];
+
+        if (trip !== -1) {
+          const arrival = pattern.arrivals[trip * width + i];
+          if (arrival < Math.min(best[stop], targetArrival)) {
+            current[stop] = arrival;
+            best[stop] = arrival;
+            parentKind[k][stop] = TRIP;
+            parentStop[k][stop] = pattern.stops[boardIndex];
+            parentPattern[k][stop] = p;
+            parentTrip[k][stop] = trip;
+            parentBoard[k][stop] = boardIndex;
+            parentAlight[k][stop] = i;
+            marked.add(stop);
+          }
+        }
+
+        // Catch an earlier trip if we were at this stop in time for it
+        const ready = previous[stop] + slack;
+        if (ready < Infinity && (trip === -1 || ready <= pattern.departures[trip * width + i])) {
+          const earlier = findTrip(timetable, p, i, ready);
+          if (earlier !== -1 && (trip === -1 || earlier < trip)) {
+            trip = earlier;
+            boardIndex = i;
+          }
+        }
+      }
+    }
+
+    // Walking transfers from stops reached by vehicle in this round
+    for (const stop of [...marked]) {
+      for (const { stop: other, meters } of timetable.transfers[stop]) {
+        const arrival = current[stop] + walkSeconds(meters);
+        if (arrival < Math.min(best[other], targetArrival)) {
+          current[other] = arrival;
+          best[other] = arrival;
+          parentKind[k][other] = TRANSFER;
+          parentStop[k][other] = stop;
+          parentMeters[k][other] = meters;
+          marked.add(other);
+        }
+      }
+    }
+
+    for (const stop of marked) {
+      const meters = egressMeters.get(stop);
+      if (meters === undefined) continue;
+      const arrival = current[stop] + walkSeconds(meters);
+      if (arrival < targetArrival) {
+        targetArrival = arrival;
+        target = { round: k, stop };
+      }
+    }
+  }
+
+  if (targetArrival === Infinity) {
+    return null;
+  }
+  if (!target) {
+    return { departure: query.departure, arrival: targetArrival, legs: [{ kind: 'walk', meters: query.directWalkMeters! }] };
+  }
+
+  // Walk back from the destination to the origin
+  const legs: JourneyLeg[] = [{ kind: 'walk', meters: egressMeters.get(target.stop)! }];
+  let round = target.round;
+  let stop = target.stop;
+  while (true) {
+    const kind = parentKind[round][stop];
+    if (kind === NONE) {
+      round--; // Label carried over unchanged from the previous round
+    } else if (kind === ACCESS) {
+      legs.unshift({ kind: 'walk', meters: parentMeters[round][stop] });
+      break;
+    } else if (kind === TRANSFER) {
+      legs.unshift({ kind: 'walk', meters: parentMeters[round][stop] });
+      stop = parentStop[round][stop];
+    } else {
+      legs.unshift({
+        kind: 'trip',
+        pattern: parentPattern[round][stop],
+        trip: parentTrip[round][stop],
+        boardIndex: parentBoard[round][stop],
+        alightIndex: parentAlight[round][stop],
+      });
+      stop = parentStop[round][stop];
+      round--;
+    }
+  }
+
+  return { departure: query.departure, arrival: targetArrival, legs };
+}
+
+/**
+ * Summarise a journey in the same shape as Digitransit itineraries
+ */
+export function toItineraryDetails(timetable: Timetable, journey: Journey): ItineraryDetails {
+  let walkDistance = 0;
+  let movingSeconds = 0;
+  const lines: { mode: string; name: string }[] = [];
+
+  for (const leg of journey.legs) {
+    if (leg.kind === 'walk') {
+      walkDistance += leg.meters;
+      movingSeconds += walkSeconds(leg.meters);
+    } else {
+      const pattern = timetable.patterns[leg.pattern];
+      const width = pattern.stops.length;
+      movingSeconds +=
+        pattern.arrivals[leg.trip * width + leg.alightIndex] - pattern.departures[leg.trip * width + leg.boardIndex];
+      lines.push({ mode: pattern.mode, name: pattern.name });
+    }
+  }
+
+  const firstLeg = journey.legs.find((leg) => leg.kind === 'trip' || leg.meters > 0);
+  return {
+    transfers: Math.max(0, lines.length - 1),
+    walkDistance: Math.round(walkDistance),
+    waitingTime: Math.max(0, Math.round((journey.arrival - journey.departure - movingSeconds) / 60)),
+    firstLegMode: firstLeg?.kind === 'trip' ? timetable.patterns[firstLeg.pattern].mode : 'WALK',
+    lines,
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Adaptive token-bucket rate limiter shared by concurrent fetch workers
+ *
+ * Requests take a token before they are sent. The refill rate starts at the
+ * configured budget, is halved whenever the server throttles us (and paused
+ * for Retry-After), and creeps back up after a run of successful requests.
+ */
+
+import { sleep } from './digitransit';
+
+export interface RateLimiter {
+  /** Wait until a request may be sent */
+  acquire(): Promise<void>;
+  /** Report a throttling response (HTTP 429/503), optionally with Retry-After */
+  throttled(retryAfterMs?: number | null): void;
+  /** Report a successful request */
+  succeeded(): void;
+  /** Current requests-per-second budget */
+  rate(): number;
+}
+
+export interface RateLimiterOptions {
+  requestsPerSecond: number;
+  minRequestsPerSecond?: number;
+  burst?: number;
+}
+
+// Successful requests needed before the rate is raised again
+const RECOVERY_STREAK = 20;
+// Share of the original budget added back on each recovery step
+const RECOVERY_STEP = 0.1;
+
+export function createRateLimiter({
+  requestsPerSecond,
+  minRequestsPerSecond = 0.2,
+  burst = 1,
+}: RateLimiterOptions): RateLimiter {
+  const maxRate = requestsPerSecond;
+  let currentRate = requestsPerSecond;
+  let tokens = burst;
+  let lastRefill = Date.now();
+  let pausedUntil = 0;
+  let successStreak = 0;
+
+  // Waiters are served in order so no worker starves
+  let queue: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(burst, tokens + ((now - lastRefill) / 1000) * currentRate);
+    lastRefill = now;
+  };
+
+  const takeToken = async () => {
+    for (;;) {
+      const pause = pausedUntil - Date.now();
+      if (pause > 0) {
+        await sleep(pause);
+        lastRefill = Date.now();
+        continue;
+      }
+      refill();
+      if (tokens >= 1) {
+        tokens -= 1;
+        return;
+      }
+      await sleep(((1 - tokens) / currentRate) * 1000);
+    }
+  };
+
+  return {
+    acquire() {
+      const turn = queue.then(takeToken);
+      queue = turn;
+      return turn;
+    },
+
+    throttled(retryAfterMs) {
+      successStreak = 0;
+      currentRate = Math.max(minRequestsPerSecond, currentRate / 2);
+      tokens = Math.min(tokens, 0);
+      if (retryAfterMs) {
+        pausedUntil = Math.max(pausedUntil, Date.now() + retryAfterMs);
+      }
+    },
+
+    succeeded() {
+      successStreak++;
+      if (successStreak >= RECOVERY_STREAK && currentRate < maxRate) {
+        successStreak = 0;
+        currentRate = Math.min(maxRate, currentRate + maxRate * RECOVERY_STEP);
+      }
+    },
+
+    rate() {
+      return currentRate;
+    },
+  };
+}
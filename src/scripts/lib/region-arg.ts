@@ -0,0 +1,41 @@
+import { DEFAULT_REGION_ID, findRegion, REGIONS, type RegionProfile } from '../../utils/regions';
+import { DEFAULT_LAND_COVERAGE } from '../../utils/h3';
+
+function getArgValue(flag: string): string | null {
+  const index = process.argv.indexOf(flag);
+  if (index === -1 || !process.argv[index + 1]) {
+    return null;
+  }
+  return process.argv[index + 1];
+}
+
+/**
+ * Read the study area from --region <id> (defaults to Helsinki)
+ * Exits with the list of known regions on an unknown id
+ */
+export function parseRegionArg(): RegionProfile {
+  const id = getArgValue('--region') ?? DEFAULT_REGION_ID;
+  const region = findRegion(id);
+  if (!region) {
+    console.error(`Unknown region: ${id}. Use: ${REGIONS.map((r) => r.id).join(', ')}`);
+    process.exit(1);
+  }
+  return region;
+}
+
+/**
+ * Read the share of a hex that must be land from --land-coverage 0.5
+ * 0 keeps every hex in the region, including sea
+ */
+export function parseLandCoverageArg(): number {
+  const value = getArgValue('--land-coverage');
+  if (value === null) {
+    return DEFAULT_LAND_COVERAGE;
+  }
+  const coverage = Number(value);
+  if (Number.isNaN(coverage) || coverage < 0 || coverage > 1) {
+    console.error('Invalid --land-coverage argument. Use a share between 0 and 1');
+    process.exit(1);
+  }
+  return coverage;
+}
@@ -0,0 +1,118 @@
+/**
+ * Minimal ZIP reader for GTFS feeds
+ *
+ * Reads the central directory and streams single entries line by line, so
+ * large files such as stop_times.txt never have to fit in memory at once.
+ * Supports stored and deflated entries; ZIP64 archives are rejected.
+ */
+
+import { closeSync, createReadStream, fstatSync, openSync, readSync } from 'fs';
+import { createInterface } from 'readline';
+import { createInflateRaw } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const MAX_COMMENT_LENGTH = 0xffff;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readAt(fd: number, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  readSync(fd, buffer, 0, length, position);
+  return buffer;
+}
+
+/**
+ * List the entries of a ZIP archive from its central directory
+ */
+export function listZipEntries(path: string): ZipEntry[] {
+  const fd = openSync(path, 'r');
+  try {
+    const size = fstatSync(fd).size;
+    const tailLength = Math.min(size, 22 + MAX_COMMENT_LENGTH);
+    const tail = readAt(fd, size - tailLength, tailLength);
+
+    let eocd = -1;
+    for (let i = tailLength - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd === -1) {
+      throw new Error(`${path} is not a ZIP archive`);
+    }
+
+    const entryCount = tail.readUInt16LE(eocd + 10);
+    const directorySize = tail.readUInt32LE(eocd + 12);
+    const directoryOffset = tail.readUInt32LE(eocd + 16);
+    if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+      throw new Error(`${path} is a ZIP64 archive, which is not supported`);
+    }
+
+    const directory = readAt(fd, directoryOffset, directorySize);
+    const entries: ZipEntry[] = [];
+    let offset = 0;
+    for (let i = 0; i < entryCount; i++) {
+      if (directory.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new Error(`Corrupt central directory in ${path}`);
+      }
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      entries.push({
+        name: directory.toString('utf-8', offset + 46, offset + 46 + nameLength),
+        method: directory.readUInt16LE(offset + 10),
+        compressedSize: directory.readUInt32LE(offset + 20),
+        localHeaderOffset: directory.readUInt32LE(offset + 42),
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Stream the lines of a text entry (a UTF-8 byte order mark is dropped)
+ */
+export async function* readZipLines(path: string, entry: ZipEntry): AsyncGenerator<string> {
+  if (entry.method !== STORED && entry.method !== DEFLATED) {
+    throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+  }
+
+  // The data starts after the local header, whose extra field may differ from the central one
+  const fd = openSync(path, 'r');
+  let dataStart: number;
+  try {
+    const header = readAt(fd, entry.localHeaderOffset, 30);
+    if (header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt local header for ${entry.name}`);
+    }
+    dataStart = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  } finally {
+    closeSync(fd);
+  }
+
+  if (entry.compressedSize === 0) return;
+
+  const raw = createReadStream(path, { start: dataStart, end: dataStart + entry.compressedSize - 1 });
+  const input = entry.method === DEFLATED ? raw.pipe(createInflateRaw()) : raw;
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  let first = true;
+  for await (const line of lines) {
+    yield first ? line.replace(/^\uFEFF/, '') : line;
+    first = false;
+  }
+}
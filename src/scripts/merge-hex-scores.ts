@@ -0,0 +1,193 @@
+/**
+ * Merge the outputs of partitioned fetch runs (--part N/M) into one dataset
+ *
+ *   npm run merge-data -- --destination pasila
+ *   npm run merge-data -- --destination pasila a.json b.json --output merged.json --strict
+ *   npm run merge-data -- --destination tikkurila --region vantaa
+ *
+ * Without file arguments every data/hex-scores-parts/<destination>.part*.json is used.
+ * Reports hexes that got different values in different parts, checks coverage
+ * against the full study area and writes the consolidated dataset.
+ */
+
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { basename, dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { BASE_H3_RESOLUTION, filterHexesToLand, generateRegionHexes } from '../utils/h3';
+import { parseDataset, serializeDataset } from '../utils/dataset';
+import { TRAVEL_MODES, type ModeDataset, type TravelMode } from '../utils/modes';
+import type { HexTravelTimeValue } from '../utils/scoring';
+import { parseLandCoverageArg, parseRegionArg } from './lib/region-arg';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const OUTPUT_DIR = join(__dirname, '../data/hex-scores');
+const PARTS_DIR = join(__dirname, '../data/hex-scores-parts');
+const STATUS_DIR = join(__dirname, '../data/fetch-status');
+const MAX_LISTED = 20; // Conflicts and gaps printed in full up to this many
+
+// Flags that take a value; everything else not starting with -- is an input file
+const VALUE_FLAGS = new Set(['--destination', '--output', '--tolerance', '--region', '--land-coverage']);
+
+function getArgValue(flag: string): string | null {
+  const index = process.argv.indexOf(flag);
+  if (index === -1 || !process.argv[index + 1]) {
+    return null;
+  }
+  return process.argv[index + 1];
+}
+
+function getInputFiles(): string[] {
+  const args = process.argv.slice(2);
+  return args.filter((arg, i) => !arg.startsWith('--') && !VALUE_FLAGS.has(args[i - 1]));
+}
+
+function findPartFiles(destinationId: string): string[] {
+  if (!existsSync(PARTS_DIR)) return [];
+  return readdirSync(PARTS_DIR)
+    .filter((file) => file.startsWith(`${destinationId}.part`) && file.endsWith('.json'))
+    .sort()
+    .map((file) => join(PARTS_DIR, file));
+}
+
+// Hexes the fetcher found to have no route, from every status file of this destination
+function loadUnreachable(destinationId: string): Map<TravelMode, Set<string>> {
+  const unreachable = new Map<TravelMode, Set<string>>(TRAVEL_MODES.map((m) => [m.id, new Set()]));
+  if (!existsSync(STATUS_DIR)) return unreachable;
+
+  for (const file of readdirSync(STATUS_DIR)) {
+    if (file !== `${destinationId}.json` && !file.startsWith(`${destinationId}.part`)) continue;
+    const status = JSON.parse(readFileSync(join(STATUS_DIR, file), 'utf-8'));
+    for (const [mode, hexIds] of Object.entries(status.unreachable ?? {}) as [TravelMode, string[]][]) {
+      hexIds.forEach((hexId) => unreachable.get(mode)?.add(hexId));
+    }
+  }
+  return unreachable;
+}
+
+// Numbers compared between two values of the same hex (null when too few departures had a route)
+function comparableValues(value: HexTravelTimeValue): (number | null)[] {
+  return typeof value === 'number' ? [value, value, value] : [value.min, value.median, value.p90];
+}
+
+function valuesConflict(a: HexTravelTimeValue, b: HexTravelTimeValue, tolerance: number): boolean {
+  const va = comparableValues(a);
+  const vb = comparableValues(b);
+  return va.some((v, i) => {
+    const other = vb[i];
+    return v === null || other === null ? v !== other : Math.abs(v - other) > tolerance;
+  });
+}
+
+function describeValue(value: HexTravelTimeValue): string {
+  return typeof value === 'number' ? `${value}` : `${value.min}/${value.median}/${value.p90}`;
+}
+
+interface Conflict {
+  mode: TravelMode;
+  hexId: string;
+  values: { file: string; value: HexTravelTimeValue }[];
+}
+
+function main() {
+  const destinationId = getArgValue('--destination');
+  if (!destinationId) {
+    console.error('Missing --destination. Usage: npm run merge-data -- --destination <id> [part files...]');
+    process.exit(1);
+  }
+
+  const tolerance = Number(getArgValue('--tolerance') ?? 0);
+  const strict = process.argv.includes('--strict');
+  const outputPath = getArgValue('--output') ?? join(OUTPUT_DIR, `${destinationId}.json`);
+  const region = parseRegionArg();
+
+  const explicitFiles = getInputFiles();
+  const inputFiles = explicitFiles.length > 0 ? explicitFiles : findPartFiles(destinationId);
+  if (inputFiles.length === 0) {
+    console.error(`No part files found for ${destinationId} in ${PARTS_DIR}`);
+    process.exit(1);
+  }
+
+  console.log(`Merging ${inputFiles.length} files for ${destinationId}:`);
+
+  // Later files win; every disagreement is recorded as a conflict
+  const merged: ModeDataset = {};
+  const sources = new Map<string, { file: string; value: HexTravelTimeValue }[]>();
+  let duplicateCount = 0;
+
+  for (const file of inputFiles) {
+    const dataset = parseDataset(JSON.parse(readFileSync(file, 'utf-8')));
+    const counts: string[] = [];
+
+    for (const [mode, values] of Object.entries(dataset) as [TravelMode, Record<string, HexTravelTimeValue>][]) {
+      const target = (merged[mode] ??= {});
+      for (const [hexId, value] of Object.entries(values)) {
+        const key = `${mode}:${hexId}`;
+        if (!sources.has(key)) {
+          sources.set(key, []);
+        } else {
+          duplicateCount++;
+        }
+        sources.get(key)!.push({ file: basename(file), value });
+        target[hexId] = value;
+      }
+      counts.push(`${mode} ${Object.keys(values).length}`);
+    }
+
+    console.log(`  ${basename(file)}: ${counts.join(', ') || 'empty'}`);
+  }
+
+  const conflicts: Conflict[] = [];
+  for (const [key, values] of sources) {
+    if (values.length < 2) continue;
+    if (values.some((v) => valuesConflict(v.value, values[0].value, tolerance))) {
+      const [mode, hexId] = key.split(':') as [TravelMode, string];
+      conflicts.push({ mode, hexId, values });
+    }
+  }
+
+  console.log(`\nOverlapping hex values: ${duplicateCount}`);
+  console.log(`Conflicting hex values (tolerance ${tolerance} min): ${conflicts.length}`);
+  for (const conflict of conflicts.slice(0, MAX_LISTED)) {
+    const values = conflict.values.map((v) => `${v.file}=${describeValue(v.value)}`).join(', ');
+    console.log(`  ${conflict.hexId} (${conflict.mode}): ${values}`);
+  }
+  if (conflicts.length > MAX_LISTED) {
+    console.log(`  ... and ${conflicts.length - MAX_LISTED} more`);
+  }
+
+  // Coverage against the full study area
+  // Sea hexes are never fetched, so they do not count as missing
+  const expected = filterHexesToLand(generateRegionHexes(region, BASE_H3_RESOLUTION), region, parseLandCoverageArg());
+  const expectedSet = new Set(expected);
+  const unreachable = loadUnreachable(destinationId);
+  let gapCount = 0;
+
+  console.log(`\nCoverage (${expected.length} land hexes in ${region.name}):`);
+  for (const [mode, values] of Object.entries(merged) as [TravelMode, Record<string, HexTravelTimeValue>][]) {
+    const missing = expected.filter((hexId) => values[hexId] === undefined);
+    const noRoute = missing.filter((hexId) => unreachable.get(mode)?.has(hexId));
+    const gaps = missing.filter((hexId) => !unreachable.get(mode)?.has(hexId));
+    const outside = Object.keys(values).filter((hexId) => !expectedSet.has(hexId));
+    const covered = expected.length - missing.length;
+    gapCount += gaps.length;
+
+    console.log(
+      `  ${mode}: ${covered}/${expected.length} (${((covered / expected.length) * 100).toFixed(1)}%)` +
+        ` | unreachable: ${noRoute.length} | missing: ${gaps.length} | outside study area: ${outside.length}`
+    );
+    if (gaps.length > 0 && gaps.length <= MAX_LISTED) {
+      console.log(`    missing: ${gaps.join(', ')}`);
+    }
+  }
+
+  if (strict && (conflicts.length > 0 || gapCount > 0)) {
+    console.error('\n--strict: not writing a dataset with conflicts or missing hexes');
+    process.exit(1);
+  }
+
+  writeFileSync(outputPath, JSON.stringify(serializeDataset(merged), null, 2));
+  console.log(`\nWrote merged dataset to ${outputPath}`);
+}
+
+main();
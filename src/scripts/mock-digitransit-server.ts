@@ -0,0 +1,238 @@
+/**
+ * Local stand-in for the Digitransit routing API
+ *
+ * Answers planConnection queries with plausible travel times derived from
+ * distance, so the fetch pipeline can be run offline without an API key:
+ *
+ *   npm run mock-api -- --port 4000 --rps 5 --failure-rate 0.05
+ *   DIGITRANSIT_API_URL=http://localhost:4000 npm run fetch-data
+ *
+ * Mimics the awkward parts of the real service too: requests above the rate
+ * limit get 429 with Retry-After, a share of requests fail with 5xx, and
+ * origins far from the destination have no route.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+
+function getArgValue(flag: string): string | null {
+  const index = process.argv.indexOf(flag);
+  if (index === -1 || !process.argv[index + 1]) {
+    return null;
+  }
+  return process.argv[index + 1];
+}
+
+const PORT = Number(getArgValue('--port') ?? 4000);
+const REQUESTS_PER_SECOND = Number(getArgValue('--rps') ?? 10);
+const FAILURE_RATE = Number(getArgValue('--failure-rate') ?? 0.02);
+const LATENCY_MS = Number(getArgValue('--latency') ?? 50);
+const MAX_ROUTE_KM = 40; // Origins further away than this have no route
+
+// Average door-to-door speeds in km/h
+const SPEED_KMH: Record<string, number> = {
+  TRANSIT: 18,
+  BICYCLE: 16,
+  WALK: 5,
+  CAR: 30,
+};
+
+// Transit vehicles leave every HEADWAY_MIN minutes, so the wait depends on departure time
+const HEADWAY_MIN = 12;
+const TRANSFER_WAIT_SECONDS = 180;
+
+// Lines handed out to transit legs; picked per origin so results are stable
+const LINES: { mode: string; shortName: string }[] = [
+  { mode: 'BUS', shortName: '55' },
+  { mode: 'BUS', shortName: '550' },
+  { mode: 'TRAM', shortName: '4' },
+  { mode: 'TRAM', shortName: '7' },
+  { mode: 'SUBWAY', shortName: 'M1' },
+  { mode: 'SUBWAY', shortName: 'M2' },
+  { mode: 'RAIL', shortName: 'P' },
+  { mode: 'RAIL', shortName: 'A' },
+];
+
+// Haversine distance in km
+function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371;
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+interface PlanQuery {
+  origin: { lat: number; lng: number };
+  destination: { lat: number; lng: number };
+  departure: Date;
+  mode: string;
+}
+
+// Pull the arguments we need out of the query text; the fetcher inlines them
+function parsePlanQuery(query: string): PlanQuery | null {
+  const coords = [...query.matchAll(/latitude:\s*(-?[\d.]+),\s*longitude:\s*(-?[\d.]+)/g)];
+  if (!query.includes('planConnection') || coords.length < 2) {
+    return null;
+  }
+  const departure = query.match(/earliestDeparture:\s*"([^"]+)"/)?.[1];
+  const direct = query.match(/direct:\s*\[(\w+)\]/)?.[1];
+
+  return {
+    origin: { lat: Number(coords[0][1]), lng: Number(coords[0][2]) },
+    destination: { lat: Number(coords[1][1]), lng: Number(coords[1][2]) },
+    departure: departure ? new Date(departure) : new Date(),
+    mode: direct ?? 'TRANSIT',
+  };
+}
+
+function planConnection({ origin, destination, departure, mode }: PlanQuery) {
+  const distanceKm = haversineDistance(origin.lat, origin.lng, destination.lat, destination.lng);
+  if (distanceKm > MAX_ROUTE_KM) {
+    return { edges: [] };
+  }
+
+  // Stable per-origin number used for the timetable offset, lines and walk distance
+  const seed = Math.abs(Math.round(origin.lat * 1e4 + origin.lng * 1e4));
+
+  let waitSeconds = 0;
+  let durationSeconds = (distanceKm / SPEED_KMH[mode]) * 3600;
+  let itinerary = {
+    numberOfTransfers: 0,
+    walkDistance: mode === 'WALK' ? Math.round(distanceKm * 1000) : 0,
+    waitingTime: 0,
+    legs: [{ mode, route: null as { shortName: string } | null }],
+  };
+
+  if (mode === 'TRANSIT') {
+    // Walk to the stop, then wait for the next vehicle on a fixed headway.
+    // Each origin gets its own timetable offset so neighbouring hexes differ.
+    const phase = seed % HEADWAY_MIN;
+    const minuteOfDay = departure.getUTCHours() * 60 + departure.getUTCMinutes();
+    waitSeconds = ((phase - minuteOfDay) % HEADWAY_MIN + HEADWAY_MIN) % HEADWAY_MIN * 60;
+
+    // Longer trips need more vehicles
+    const transitLegs = distanceKm < 3 ? 1 : distanceKm < 8 ? 2 : 3;
+    const transfers = transitLegs - 1;
+    durationSeconds += 5 * 60 + transfers * TRANSFER_WAIT_SECONDS;
+    itinerary = {
+      numberOfTransfers: transfers,
+      walkDistance: 300 + (seed % 7) * 100,
+      waitingTime: transfers * TRANSFER_WAIT_SECONDS,
+      legs: [
+        { mode: 'WALK', route: null },
+        ...Array.from({ length: transitLegs }, (_, i) => {
+          const line = LINES[(seed + i * 3) % LINES.length];
+          return { mode: line.mode, route: { shortName: line.shortName } };
+        }),
+        { mode: 'WALK', route: null },
+      ],
+    };
+  }
+
+  const start = new Date(departure.getTime() + waitSeconds * 1000);
+  const end = new Date(start.getTime() + durationSeconds * 1000);
+  return {
+    edges: [
+      {
+        node: {
+          start: start.toISOString(),
+          end: end.toISOString(),
+          duration: Math.round(durationSeconds),
+          ...itinerary,
+        },
+      },
+    ],
+  };
+}
+
+// Token bucket refilled at REQUESTS_PER_SECOND, with one second of burst
+let tokens = REQUESTS_PER_SECOND;
+let lastRefill = Date.now();
+
+function takeToken(): boolean {
+  const now = Date.now();
+  tokens = Math.min(REQUESTS_PER_SECOND, tokens + ((now - lastRefill) / 1000) * REQUESTS_PER_SECOND);
+  lastRefill = now;
+  if (tokens < 1) {
+    return false;
+  }
+  tokens -= 1;
+  return true;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+    // A client that gives up mid-request never sends the end of the body
+    req.on('close', () => {
+      if (!req.complete) reject(new Error('Request aborted'));
+    });
+  });
+}
+
+const stats = { ok: 0, rateLimited: 0, failed: 0 };
+
+const server = createServer(async (req, res) => {
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { errors: [{ message: 'Only POST is supported' }] });
+    return;
+  }
+
+  let body: string;
+  try {
+    body = await readBody(req);
+  } catch {
+    // The client went away (e.g. the fetcher timed out); nobody is left to answer
+    res.destroy();
+    return;
+  }
+  await new Promise((resolve) => setTimeout(resolve, LATENCY_MS));
+
+  if (!takeToken()) {
+    stats.rateLimited++;
+    sendJson(res, 429, { message: 'Too Many Requests' }, { 'Retry-After': '1' });
+    return;
+  }
+
+  if (Math.random() < FAILURE_RATE) {
+    stats.failed++;
+    const status = Math.random() < 0.5 ? 503 : 502;
+    sendJson(res, status, { message: 'Service temporarily unavailable' });
+    return;
+  }
+
+  let query: PlanQuery | null = null;
+  try {
+    query = parsePlanQuery(JSON.parse(body).query ?? '');
+  } catch {
+    // Fall through to the GraphQL error below
+  }
+  if (!query) {
+    sendJson(res, 200, { errors: [{ message: 'Mock server only supports planConnection queries' }] });
+    return;
+  }
+
+  stats.ok++;
+  sendJson(res, 200, { data: { planConnection: planConnection(query) } });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Digitransit API listening on http://localhost:${PORT}`);
+  console.log(`Rate limit: ${REQUESTS_PER_SECOND} req/s | Failure rate: ${(FAILURE_RATE * 100).toFixed(1)}%`);
+});
+
+// Periodic summary so throttling behaviour is visible while the fetcher runs
+setInterval(() => {
+  console.log(`OK: ${stats.ok} | 429: ${stats.rateLimited} | 5xx: ${stats.failed}`);
+}, 10000).unref();
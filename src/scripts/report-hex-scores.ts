@@ -0,0 +1,248 @@
+/**
+ * Coverage and quality report for a hex score dataset
+ *
+ *   npm run report-data -- --destination city-center
+ *   npm run report-data -- --file some-dataset.json --mode transit --geojson issues.geojson
+ *   npm run report-data -- --destination keilaniemi --region espoo
+ *
+ * Prints coverage of the study area, clusters of missing hexes, the travel time
+ * distribution, data age, return trips and outliers (hexes far from the median of their H3 neighbours).
+ * With --geojson, writes the missing and suspicious hexes as polygons for review.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { cellToBoundary, cellToLatLng, gridDisk } from 'h3-js';
+import { BASE_H3_RESOLUTION, filterHexesToLand, generateRegionHexes } from '../utils/h3';
+import { parseDataset } from '../utils/dataset';
+import { getAvailableModes, isTravelMode, type TravelMode } from '../utils/modes';
+import {
+  getDataAges,
+  getPartialCoverage,
+  getStatisticScores,
+  TRAVEL_TIME_STATISTICS,
+  type HexScoreMap,
+  type TravelTimeStatistic,
+} from '../utils/scoring';
+import { median, percentile } from '../utils/statistics';
+import { getMissingReturns, getReturnScores, getReturnWindow } from '../utils/directions';
+import { parseLandCoverageArg, parseRegionArg } from './lib/region-arg';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const OUTPUT_DIR = join(__dirname, '../data/hex-scores');
+const DEFAULT_OUTLIER_MINUTES = 15; // Difference from the neighbour median that counts as an outlier
+const MIN_NEIGHBOURS = 3; // Neighbours with values needed to judge a hex
+const MAX_LISTED = 10;
+
+function getArgValue(flag: string): string | null {
+  const index = process.argv.indexOf(flag);
+  if (index === -1 || !process.argv[index + 1]) {
+    return null;
+  }
+  return process.argv[index + 1];
+}
+
+interface Outlier {
+  hexId: string;
+  value: number;
+  neighbourMedian: number;
+  neighbours: number;
+}
+
+interface IssueFeature {
+  type: 'Feature';
+  properties: Record<string, string | number>;
+  geometry: { type: 'Polygon'; coordinates: number[][][] };
+}
+
+/**
+ * Group hexes into clusters of adjacent cells
+ */
+function findClusters(hexIds: string[]): string[][] {
+  const remaining = new Set(hexIds);
+  const clusters: string[][] = [];
+
+  for (const start of hexIds) {
+    if (!remaining.has(start)) continue;
+    remaining.delete(start);
+
+    const cluster = [start];
+    for (let i = 0; i < cluster.length; i++) {
+      for (const neighbour of gridDisk(cluster[i], 1)) {
+        if (remaining.has(neighbour)) {
+          remaining.delete(neighbour);
+          cluster.push(neighbour);
+        }
+      }
+    }
+    clusters.push(cluster);
+  }
+
+  return clusters.sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Find hexes whose time differs sharply from their k-ring neighbours
+ */
+function findOutliers(scores: HexScoreMap, k: number, thresholdMinutes: number): Outlier[] {
+  const outliers: Outlier[] = [];
+
+  for (const [hexId, value] of Object.entries(scores)) {
+    const neighbourValues = gridDisk(hexId, k)
+      .filter((neighbour) => neighbour !== hexId && scores[neighbour] !== undefined)
+      .map((neighbour) => scores[neighbour]);
+    if (neighbourValues.length < MIN_NEIGHBOURS) continue;
+
+    const neighbourMedian = median(neighbourValues);
+    if (Math.abs(value - neighbourMedian) > thresholdMinutes) {
+      outliers.push({ hexId, value, neighbourMedian, neighbours: neighbourValues.length });
+    }
+  }
+
+  return outliers.sort(
+    (a, b) => Math.abs(b.value - b.neighbourMedian) - Math.abs(a.value - a.neighbourMedian)
+  );
+}
+
+function hexFeature(hexId: string, properties: Record<string, string | number>): IssueFeature {
+  const ring = cellToBoundary(hexId, true); // [lng, lat] for GeoJSON
+  return {
+    type: 'Feature',
+    properties: { hexId, ...properties },
+    geometry: { type: 'Polygon', coordinates: [[...ring, ring[0]]] },
+  };
+}
+
+function formatLatLng(hexId: string): string {
+  const [lat, lng] = cellToLatLng(hexId);
+  return `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
+}
+
+function main() {
+  const destinationId = getArgValue('--destination') ?? 'city-center';
+  const inputPath = getArgValue('--file') ?? join(OUTPUT_DIR, `${destinationId}.json`);
+  const statistic = (getArgValue('--statistic') ?? 'median') as TravelTimeStatistic;
+  const modeArg = getArgValue('--mode');
+  const ringSize = Number(getArgValue('--k') ?? 1);
+  const outlierMinutes = Number(getArgValue('--outlier-minutes') ?? DEFAULT_OUTLIER_MINUTES);
+  const geojsonPath = getArgValue('--geojson');
+  const region = parseRegionArg();
+
+  if (!existsSync(inputPath)) {
+    console.error(`Dataset not found: ${inputPath}`);
+    process.exit(1);
+  }
+  if (!TRAVEL_TIME_STATISTICS.some((s) => s.id === statistic)) {
+    console.error(`Unknown --statistic ${statistic}. Use: ${TRAVEL_TIME_STATISTICS.map((s) => s.id).join(', ')}`);
+    process.exit(1);
+  }
+  if (modeArg && !isTravelMode(modeArg)) {
+    console.error(`Unknown --mode ${modeArg}`);
+    process.exit(1);
+  }
+
+  const dataset = parseDataset(JSON.parse(readFileSync(inputPath, 'utf-8')));
+  const modes: TravelMode[] = modeArg ? [modeArg as TravelMode] : getAvailableModes(dataset);
+
+  // Sea hexes are never fetched, so they do not count as missing
+  const studyArea = filterHexesToLand(generateRegionHexes(region, BASE_H3_RESOLUTION), region, parseLandCoverageArg());
+  const studyAreaSet = new Set(studyArea);
+  const features: IssueFeature[] = [];
+
+  console.log(`Dataset: ${inputPath}`);
+  console.log(`Study area: ${region.name}, ${studyArea.length} land hexes at resolution ${BASE_H3_RESOLUTION}`);
+  console.log(`Statistic: ${statistic} | Outliers: > ${outlierMinutes} min from k=${ringSize} neighbour median`);
+
+  for (const mode of modes) {
+    const scores = getStatisticScores(dataset[mode] ?? {}, statistic);
+    const inArea = Object.keys(scores).filter((hexId) => studyAreaSet.has(hexId));
+    const outside = Object.keys(scores).length - inArea.length;
+    const values = inArea.map((hexId) => scores[hexId]);
+
+    console.log(`\n=== ${mode} ===`);
+    console.log(
+      `Coverage: ${inArea.length}/${studyArea.length} (${((inArea.length / studyArea.length) * 100).toFixed(1)}%)` +
+        (outside > 0 ? ` | ${outside} hexes outside study area` : '')
+    );
+
+    // Missing hexes and where they cluster
+    const missing = studyArea.filter((hexId) => scores[hexId] === undefined);
+    const clusters = findClusters(missing);
+    console.log(`Missing: ${missing.length} hexes in ${clusters.length} clusters`);
+    clusters.slice(0, MAX_LISTED).forEach((cluster, i) => {
+      console.log(`  #${i + 1}: ${cluster.length} hex${cluster.length === 1 ? '' : 'es'} around ${formatLatLng(cluster[0])}`);
+    });
+    clusters.forEach((cluster, i) => {
+      for (const hexId of cluster) {
+        features.push(hexFeature(hexId, { mode, issue: 'missing', cluster: i + 1, clusterSize: cluster.length }));
+      }
+    });
+
+    if (values.length === 0) continue;
+
+    // Distribution
+    const pct = (p: number) => percentile(values, p).toFixed(0);
+    console.log(`Min: ${Math.min(...values)} | Max: ${Math.max(...values)} min`);
+    console.log(`P10: ${pct(10)} | P25: ${pct(25)} | P50: ${pct(50)} | P75: ${pct(75)} | P90: ${pct(90)} | P99: ${pct(99)}`);
+
+    // Data age and where the values came from
+    const records = Object.values(dataset[mode] ?? {});
+    const ages = Object.values(getDataAges(dataset[mode] ?? {}));
+    const sources = new Map<string, number>();
+    for (const value of records) {
+      const source = typeof value !== 'number' && 'source' in value && value.source ? value.source : 'unknown';
+      sources.set(source, (sources.get(source) ?? 0) + 1);
+    }
+    console.log(
+      ages.length > 0
+        ? `Data age: median ${median(ages)} days, oldest ${Math.max(...ages)} days | ${records.length - ages.length} hexes without fetch time`
+        : 'Data age: no fetch times recorded'
+    );
+    console.log(`Sources: ${[...sources].map(([source, count]) => `${source} (${count})`).join(', ')}`);
+    const partial = Object.keys(getPartialCoverage(dataset[mode] ?? {})).length;
+    if (partial > 0) {
+      console.log(`Partial coverage: ${partial} hexes have a route at only some departures`);
+    }
+
+    // Trips back from the destination, when fetched with --return-window
+    const returnScores = getReturnScores(dataset[mode] ?? {}, statistic);
+    const noReturn = Object.keys(getMissingReturns(dataset[mode] ?? {})).length;
+    const returnCount = Object.keys(returnScores).length;
+    if (returnCount + noReturn > 0) {
+      const differences = Object.entries(returnScores).map(([hexId, minutes]) => minutes - scores[hexId]);
+      console.log(
+        `Return trips (leaving ${getReturnWindow(dataset[mode] ?? {}) ?? '-'}): ${returnCount} hexes, ${noReturn} with no route back` +
+          (differences.length > 0 ? ` | median return minus outbound: ${median(differences).toFixed(0)} min` : '')
+      );
+    }
+
+    // Outliers against neighbouring hexes
+    const outliers = findOutliers(scores, ringSize, outlierMinutes);
+    console.log(`Outliers: ${outliers.length}`);
+    for (const outlier of outliers.slice(0, MAX_LISTED)) {
+      console.log(
+        `  ${outlier.hexId}: ${outlier.value} min vs ${outlier.neighbourMedian.toFixed(0)} min neighbour median` +
+          ` (${outlier.neighbours} neighbours) at ${formatLatLng(outlier.hexId)}`
+      );
+    }
+    for (const outlier of outliers) {
+      features.push(
+        hexFeature(outlier.hexId, {
+          mode,
+          issue: 'outlier',
+          value: outlier.value,
+          neighbourMedian: Math.round(outlier.neighbourMedian),
+        })
+      );
+    }
+  }
+
+  if (geojsonPath) {
+    writeFileSync(geojsonPath, JSON.stringify({ type: 'FeatureCollection', features }, null, 2));
+    console.log(`\nWrote ${features.length} missing/suspicious hexes to ${geojsonPath}`);
+  }
+}
+
+main();
@@ -0,0 +1,497 @@
+/**
+ * Self-checks of the data pipeline against small inputs with known answers
+ *
+ *   npm run check
+ *
+ * Routes over a tiny GTFS feed (src/scripts/fixtures/tiny-gtfs, zipped on the
+ * fly) to cover the ZIP reader, the timetable loader and the RAPTOR router,
+ * times the rate limiter of the fetch pipeline, and computes the departure
+ * statistics, the aggregation of child hexes, the estimates for hexes without
+ * routes, the changes against a baseline and the band breaks of the map's
+ * color scales for known values.
+ * Closes a small coastline (src/scripts/fixtures/coastline.json) into land
+ * polygons and checks their rings and areas, and the share of a hex covered
+ * by land.
+ * Prints one line per check and exits with status 1 when any of them fails.
+ */
+
+import assert from 'assert/strict';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { deflateRawSync } from 'zlib';
+import { featureCollection, polygon } from '@turf/helpers';
+import { cellToChildren, cellToLatLng, gridDiskDistances, latLngToCell } from 'h3-js';
+import { getAsymmetryColor, getAsymmetryStops, NO_RETURN_COLOR } from '../utils/colors';
+import {
+  buildColorScale,
+  DEFAULT_COLOR_SCALE_CONFIG,
+  FIXED_BREAKS,
+  parseBreaks,
+  PALETTES,
+  type ColorScaleConfig,
+} from '../utils/colorscales';
+import { diffScores, summarizeDiff } from '../utils/diff';
+import { NO_RETURN_ROUTE } from '../utils/directions';
+import { fillGaps } from '../utils/gapfill';
+import { clipRingToConvex, isCounterClockwise, type LngLat } from '../utils/geometry';
+import { getHexLandBoundary, getHexLandCoverage } from '../utils/h3';
+import type { RegionProfile } from '../utils/regions';
+import {
+  aggregateScoresToResolution,
+  DEFAULT_AGGREGATION,
+  type Aggregation,
+  type HexScoreMap,
+} from '../utils/scoring';
+import { sampledPercentile } from '../utils/statistics';
+import { createGtfsBackend } from './lib/backend';
+import { buildLandPolygons } from './lib/coastline';
+import { loadTimetable, type Timetable } from './lib/gtfs';
+import { findEarliestArrival, toItineraryDetails } from './lib/raptor';
+import { createRateLimiter } from './lib/rate-limiter';
+import { listZipEntries, readZipLines } from './lib/zip';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const FIXTURE_DIR = join(__dirname, 'fixtures/tiny-gtfs');
+// Overpass export of a mainland coast crossing the south and east bounds, an island, an islet and a lake
+const COASTLINE_FIXTURE = join(__dirname, 'fixtures/coastline.json');
+const COASTLINE_BOUNDS = { north: 60.01, south: 60.0, east: 25.02, west: 25.0 };
+// A Tuesday inside the fixture's calendar
+const SERVICE_DATE = '2026-10-20';
+const WINDOW = { date: SERVICE_DATE, startSeconds: 7.5 * 3600, endSeconds: 9 * 3600 };
+const STORE_BELOW_BYTES = 256; // Smaller fixture files are stored, larger ones deflated
+const TIMER_SLACK_MS = 15; // Timers may fire this much early relative to Date.now()
+
+const checks: { name: string; run: () => void | Promise<void> }[] = [];
+
+function check(name: string, run: () => void | Promise<void>) {
+  checks.push({ name, run });
+}
+
+function seconds(time: string): number {
+  const [hours, minutes, secs = 0] = time.split(':').map(Number);
+  return hours * 3600 + minutes * 60 + secs;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Pack the fixture files into a ZIP inside a folder, as feeds often are.
+ * Both stored and deflated entries are written so the reader sees both.
+ */
+function writeFixtureZip(path: string) {
+  const parts: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  const files = readdirSync(FIXTURE_DIR).sort();
+  for (const file of files) {
+    const data = readFileSync(join(FIXTURE_DIR, file));
+    const name = Buffer.from(`tiny-gtfs/${file}`);
+    const method = data.length < STORE_BELOW_BYTES ? 0 : 8;
+    const body = method === 0 ? data : deflateRawSync(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(crc32(data), 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(crc32(data), 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    parts.push(local, name, body);
+    directory.push(central, name);
+    offset += local.length + name.length + body.length;
+  }
+
+  const centralDirectory = Buffer.concat(directory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  writeFileSync(path, Buffer.concat([...parts, centralDirectory, end]));
+}
+
+const workDir = mkdtempSync(join(tmpdir(), 'hex-map-check-'));
+const zipPath = join(workDir, 'tiny-gtfs.zip');
+writeFixtureZip(zipPath);
+
+let timetable: Timetable;
+const stop = (id: string) => timetable.stopIds.indexOf(id);
+// Walk onto the bus at stop A and off the tram at stop D
+const journeyFrom = (departure: string) =>
+  findEarliestArrival(timetable, {
+    departure: seconds(departure),
+    access: [{ stop: stop('A'), meters: 0 }],
+    egress: [{ stop: stop('D'), meters: 0 }],
+    directWalkMeters: null,
+  });
+
+check('zip: lists stored and deflated entries inside a folder', () => {
+  const entries = listZipEntries(zipPath);
+  assert.equal(entries.length, readdirSync(FIXTURE_DIR).length);
+  assert.equal(entries.find((e) => e.name === 'tiny-gtfs/stop_times.txt')?.method, 8);
+  assert.equal(entries.find((e) => e.name === 'tiny-gtfs/agency.txt')?.method, 0);
+});
+
+check('zip: streams lines without the byte order mark and CRLF endings', async () => {
+  const entries = listZipEntries(zipPath);
+  const lines: string[] = [];
+  for await (const line of readZipLines(zipPath, entries.find((e) => e.name.endsWith('stops.txt'))!)) lines.push(line);
+  assert.ok(lines[0].startsWith('stop_id,'));
+  const stopTimes: string[] = [];
+  for await (const line of readZipLines(zipPath, entries.find((e) => e.name.endsWith('stop_times.txt'))!)) {
+    stopTimes.push(line);
+  }
+  assert.equal(stopTimes.length, 18);
+  assert.ok(stopTimes.every((line) => !line.includes('\r')));
+});
+
+check('gtfs: loads the trips of the service day inside the window', async () => {
+  timetable = await loadTimetable(zipPath, WINDOW);
+  assert.equal(timetable.feedVersion, 'tiny-1');
+  // The station is not a boarding point
+  assert.deepEqual(timetable.stopIds, ['A', 'B', 'C', 'D']);
+  const bus = timetable.patterns.find((p) => p.name === '1')!;
+  // The 10:00 trip runs after the window
+  assert.equal(bus.tripCount, 2);
+  // Stop times listed out of order are sorted by stop_sequence
+  const tram = timetable.patterns.find((p) => p.name === '2')!;
+  assert.equal(tram.mode, 'TRAM');
+  assert.deepEqual([...tram.stops], [stop('C'), stop('D')]);
+  assert.equal(tram.tripCount, 3);
+});
+
+check('gtfs: leaves out services removed by calendar_dates and weekend days', async () => {
+  const removed = await loadTimetable(zipPath, { ...WINDOW, date: '2026-12-08' });
+  assert.equal(removed.patterns.length, 0);
+  const saturday = await loadTimetable(zipPath, { ...WINDOW, date: '2026-10-24' });
+  assert.equal(saturday.patterns.length, 0);
+});
+
+check('raptor: changes to the tram after the transfer slack, beating the direct bus', () => {
+  // Bus 1 reaches C at 08:12; the 08:12:30 tram leaves within the slack, so the 08:20 one is taken
+  const journey = journeyFrom('07:58');
+  assert.ok(journey);
+  assert.equal(journey.arrival, seconds('08:28'));
+  assert.deepEqual(toItineraryDetails(timetable, journey), {
+    transfers: 1,
+    walkDistance: 0,
+    waitingTime: 10,
+    firstLegMode: 'BUS',
+    lines: [
+      { mode: 'BUS', name: '1' },
+      { mode: 'TRAM', name: '2' },
+    ],
+  });
+});
+
+check('raptor: takes the next trips when leaving later', () => {
+  assert.equal(journeyFrom('08:05')?.arrival, seconds('08:38'));
+});
+
+check('raptor: finds no route after the last bus', () => {
+  assert.equal(journeyFrom('08:20'), null);
+});
+
+check('backend: routes between coordinates in whole minutes', async () => {
+  const backend = await createGtfsBackend(zipPath, WINDOW);
+  assert.equal(backend.version, 'gtfs tiny-1');
+  const request = {
+    origin: { lat: 60.17, lng: 24.9 },
+    destination: { lat: 60.2, lng: 24.98 },
+    mode: 'transit' as const,
+  };
+  const result = await backend.route({ ...request, departureTime: `${SERVICE_DATE}T07:58:00+03:00` });
+  assert.equal(result.status, 'ok');
+  assert.equal(result.status === 'ok' && result.minutes, 30);
+  const otherDay = await backend.route({ ...request, departureTime: '2026-10-21T07:58:00+03:00' });
+  assert.equal(otherDay.status, 'failed');
+});
+
+check('rate limiter: spaces requests at the configured rate', async () => {
+  const limiter = createRateLimiter({ requestsPerSecond: 20 });
+  const startedAt = Date.now();
+  for (let i = 0; i < 6; i++) await limiter.acquire();
+  // The first request uses the burst token, the other five wait 50 ms each
+  assert.ok(Date.now() - startedAt >= 250 - TIMER_SLACK_MS);
+});
+
+check('rate limiter: halves the rate when throttled and recovers after a streak', () => {
+  const limiter = createRateLimiter({ requestsPerSecond: 10, minRequestsPerSecond: 2 });
+  limiter.throttled();
+  assert.equal(limiter.rate(), 5);
+  limiter.throttled();
+  limiter.throttled();
+  assert.equal(limiter.rate(), 2);
+  for (let i = 0; i < 19; i++) limiter.succeeded();
+  assert.equal(limiter.rate(), 2);
+  limiter.succeeded();
+  assert.equal(limiter.rate(), 3);
+  // A throttled response restarts the streak
+  for (let i = 0; i < 19; i++) limiter.succeeded();
+  limiter.throttled();
+  for (let i = 0; i < 19; i++) limiter.succeeded();
+  assert.equal(limiter.rate(), 2);
+});
+
+check('rate limiter: waits out Retry-After', async () => {
+  const limiter = createRateLimiter({ requestsPerSecond: 100 });
+  await limiter.acquire();
+  limiter.throttled(200);
+  const startedAt = Date.now();
+  await limiter.acquire();
+  assert.ok(Date.now() - startedAt >= 200 - TIMER_SLACK_MS);
+});
+
+check('statistics: departures without a route count towards the median and p90', () => {
+  // Routed at 1 of 6 departures: a best case, but no typical or reliable trip
+  assert.equal(sampledPercentile([20], 6, 50), null);
+  assert.equal(sampledPercentile([20], 6, 90), null);
+  // Routed at 5 of 6: the median is a real trip, the p90 falls on the unrouted departure
+  assert.equal(sampledPercentile([28, 20, 24, 22, 26], 6, 50), 25);
+  assert.equal(sampledPercentile([28, 20, 24, 22, 26], 6, 90), null);
+  // Every departure routed: the plain percentile
+  assert.equal(sampledPercentile([10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110], 11, 90), 100);
+});
+
+check('scoring: child hexes are combined with the chosen aggregation', () => {
+  // One parent with a station child at 8 min and six forest children at 50 min
+  const parent = latLngToCell(60.17, 24.94, 8);
+  const [station, ...forest] = cellToChildren(parent, 9);
+  const scores: HexScoreMap = { [station]: 8, ...Object.fromEntries(forest.map((hexId) => [hexId, 50])) };
+  const aggregate = (aggregation: Partial<Aggregation>) =>
+    aggregateScoresToResolution(scores, 8, { ...DEFAULT_AGGREGATION, ...aggregation })[parent];
+
+  assert.equal(aggregate({ method: 'mean' }), 44);
+  assert.equal(aggregate({ method: 'median' }), 50);
+  assert.equal(aggregate({ method: 'min' }), 8);
+  assert.equal(aggregate({ method: 'max' }), 50);
+  assert.equal(aggregate({ method: 'percentile', percentile: 10 }), 33); // Interpolated between 8 and 50
+  // Twelve buildings by the station and one in each of two forest hexes: (12 × 8 + 2 × 50) / 14
+  const buildingCounts = new Map([[station, 12], [forest[0], 1], [forest[1], 1]]);
+  assert.equal(aggregate({ method: 'building-weighted', buildingCounts }), 14);
+  // Without buildings in any child, every child counts equally
+  assert.equal(aggregate({ method: 'building-weighted', buildingCounts: new Map() }), 44);
+});
+
+check('gap filling: estimates from measured neighbours, weighted by distance', () => {
+  const gap = latLngToCell(60.17, 24.94, 9);
+  const [, nearRing, farRing] = gridDiskDistances(gap, 2);
+  const far = latLngToCell(60.3, 25.2, 9); // No measured hex within two rings
+  const scores: HexScoreMap = { [nearRing[0]]: 10, [nearRing[1]]: NO_RETURN_ROUTE, [farRing[0]]: 40 };
+
+  // 1 / rings²: (10 × 1 + 40 × 1/4) / (1 + 1/4); the no route back marker is skipped
+  assert.deepEqual(fillGaps([gap, far, nearRing[0]], scores, 'idw'), { [gap]: { value: 16, neighbours: 2 } });
+  assert.deepEqual(fillGaps([gap], scores, 'median'), { [gap]: { value: 25, neighbours: 2 } });
+  assert.deepEqual(fillGaps([gap], scores, 'idw', 1), { [gap]: { value: 10, neighbours: 1 } });
+  assert.deepEqual(fillGaps([gap], scores, 'none'), {});
+});
+
+check('diff: changes against a baseline, negative when faster', () => {
+  const before: HexScoreMap = { a: 30, b: 20, c: 25, d: 40, e: NO_RETURN_ROUTE };
+  const after: HexScoreMap = { a: 25, b: 26, c: 25, d: 35, e: 30, f: 10 };
+  // Hexes missing from either dataset or holding markers are not compared
+  const deltas = diffScores(before, after);
+  assert.deepEqual(deltas, { a: -5, b: 6, c: 0, d: -5 });
+
+  // d has no buildings: (-5 × 3 + 6 × 1 + 0 × 2) / 6
+  const buildingCounts = new Map([['a', 3], ['b', 1], ['c', 2]]);
+  assert.deepEqual(summarizeDiff(deltas, buildingCounts), {
+    improved: 1,
+    worsened: 1,
+    unchanged: 1,
+    buildingWeightedChange: -1.5,
+  });
+  // Without building counts every hex counts once
+  assert.deepEqual(summarizeDiff(deltas), { improved: 2, worsened: 1, unchanged: 1, buildingWeightedChange: -1 });
+  assert.ok(Number.isNaN(summarizeDiff(deltas, new Map()).buildingWeightedChange));
+});
+
+const bandLabels = (config: Partial<ColorScaleConfig>, values: number[], fixedBreaks?: number[]) =>
+  buildColorScale({ ...DEFAULT_COLOR_SCALE_CONFIG, ...config }, values, fixedBreaks).stops.map((stop) => stop.label);
+
+check('color scale: fixed bands, doubled for round trips', () => {
+  assert.deepEqual(bandLabels({ method: 'fixed' }, []), ['0-15 min', '15-30 min', '30-45 min', '45+ min']);
+  assert.deepEqual(
+    bandLabels({ method: 'fixed' }, [], FIXED_BREAKS.map((b) => b * 2)),
+    ['0-30 min', '30-60 min', '60-90 min', '90+ min']
+  );
+  // A break belongs to the band above it
+  const scale = buildColorScale(DEFAULT_COLOR_SCALE_CONFIG, []);
+  assert.equal(scale.getColor(14.9), scale.stops[0].color);
+  assert.equal(scale.getColor(15), scale.stops[1].color);
+  assert.equal(scale.getColor(120), scale.stops[3].color);
+});
+
+check('color scale: equal intervals and quantiles fitted to the values', () => {
+  assert.deepEqual(bandLabels({ method: 'equal-interval', classes: 4 }, [10, 50]), [
+    '0-20 min',
+    '20-30 min',
+    '30-40 min',
+    '40+ min',
+  ]);
+  const minutes = Array.from({ length: 101 }, (_, i) => i);
+  assert.deepEqual(bandLabels({ method: 'quantile', classes: 4 }, minutes), [
+    '0-25 min',
+    '25-50 min',
+    '50-75 min',
+    '75+ min',
+  ]);
+  // Equal quantiles collapse into one break; markers such as Infinity are ignored
+  assert.deepEqual(bandLabels({ method: 'quantile', classes: 3 }, [20, 20, 20, Infinity]), ['0-20 min', '20+ min']);
+});
+
+check('color scale: custom breaks are rounded, sorted and deduplicated', () => {
+  assert.deepEqual(bandLabels({ method: 'custom', customBreaks: [30, 10, 10, -5, 12.6] }, []), [
+    '0-10 min',
+    '10-13 min',
+    '13-30 min',
+    '30+ min',
+  ]);
+  assert.deepEqual(parseBreaks('30, 10;10  abc -5'), [10, 30]);
+});
+
+check('color scale: continuous ramp spans the values', () => {
+  const palette = PALETTES.find((p) => p.id === 'viridis')!;
+  const scale = buildColorScale({ ...DEFAULT_COLOR_SCALE_CONFIG, palette: 'viridis', method: 'continuous' }, [12, 70]);
+  assert.equal(scale.continuous, true);
+  assert.deepEqual(scale.domain, [12, 70]);
+  assert.equal(scale.getColor(12), palette.colors[0]);
+  assert.equal(scale.getColor(90), palette.colors[palette.colors.length - 1]);
+});
+
+check('color scale: asymmetry colors follow the legend bands', () => {
+  const [faster, similar, slower] = getAsymmetryStops(5);
+  // As on the other scales, a break belongs to the band above it
+  assert.equal(getAsymmetryColor(5, 5), slower.color);
+  assert.equal(getAsymmetryColor(4, 5), similar.color);
+  assert.equal(getAsymmetryColor(-5, 5), similar.color);
+  assert.equal(getAsymmetryColor(-6, 5), faster.color);
+  assert.equal(getAsymmetryColor(Infinity, 5), NO_RETURN_COLOR);
+});
+
+check('coastline: closes the coast along the bounds, with islands and lakes', () => {
+  const osmData = JSON.parse(readFileSync(COASTLINE_FIXTURE, 'utf-8'));
+  const { polygons, stats } = buildLandPolygons(osmData, COASTLINE_BOUNDS, 50_000);
+  // The two mainland ways join into one chain, which is cut into one piece from the south edge to the east edge
+  assert.equal(stats.chains, 1);
+  assert.equal(stats.pieces, 1);
+  assert.equal(stats.truncated, 0);
+
+  // The islet is under the minimum area; the mainland comes first
+  assert.equal(polygons.length, 2);
+  const [mainland, island] = polygons;
+  const round = (ring: LngLat[]) => ring.map(([lng, lat]) => [+lng.toFixed(7), +lat.toFixed(7)]);
+  // Land on the left: up the coast, east to the bounds, then counter-clockwise around the corners
+  assert.deepEqual(round(mainland.rings[0]), [
+    [25.005, 60.0],
+    [25.005, 60.005],
+    [25.02, 60.005],
+    [25.02, 60.01],
+    [25.0, 60.01],
+    [25.0, 60.0],
+    [25.005, 60.0],
+  ]);
+  assert.equal(mainland.rings.length, 2);
+  assert.equal(isCounterClockwise(mainland.rings[0]), true);
+  assert.equal(isCounterClockwise(mainland.rings[1]), false); // The lake, given counter-clockwise
+  assert.equal(island.rings.length, 1);
+  assert.equal(isCounterClockwise(island.rings[0]), true);
+
+  // Areas in m²: the bounds less the sea and the lake, and the island, in square degrees
+  const squareMetersPerSquareDegree = 111_195 * 111_195 * Math.cos((60.005 * Math.PI) / 180);
+  const assertArea = (actual: number, squareDegrees: number) =>
+    assert.ok(Math.abs(actual / (squareDegrees * squareMetersPerSquareDegree) - 1) < 0.005, `area ${actual} m²`);
+  assertArea(mainland.area, 0.02 * 0.01 - 0.015 * 0.005 - 0.002 * 0.002);
+  assertArea(island.area, 0.008 * 0.003);
+});
+
+check('geometry: clips a ring to a convex ring', () => {
+  const square = (west: number, south: number, size: number): LngLat[] => [
+    [west, south],
+    [west + size, south],
+    [west + size, south + size],
+    [west, south + size],
+    [west, south],
+  ];
+  const clipped = clipRingToConvex(square(0, 0, 2), square(1, 1, 2));
+  assert.deepEqual(clipped.slice(0, -1).map(String).sort(), ['1,1', '1,2', '2,1', '2,2']);
+  assert.deepEqual(clipped[0], clipped[clipped.length - 1]);
+  assert.deepEqual(clipRingToConvex(square(0, 0, 1), square(5, 5, 1)), []);
+});
+
+check('h3: land coverage and coastline outlines of hexes under a square of land', () => {
+  const hexId = latLngToCell(60.2, 24.9, 8);
+  const [lat, lng] = cellToLatLng(hexId);
+  // Land east of the hex center, reaching well past the hex on the other three sides
+  const land: LngLat[] = [
+    [lng, lat - 0.1],
+    [lng + 0.1, lat - 0.1],
+    [lng + 0.1, lat + 0.1],
+    [lng, lat + 0.1],
+    [lng, lat - 0.1],
+  ];
+  const region = {
+    id: 'self-check-square',
+    land: featureCollection([polygon([land])]),
+    landMask: null,
+  } as unknown as RegionProfile;
+  const coverage = (cell: string) => +getHexLandCoverage(cell, region).toFixed(2);
+  assert.equal(coverage(hexId), 0.5);
+  assert.equal(coverage(latLngToCell(lat, lng + 0.05, 8)), 1);
+  assert.equal(coverage(latLngToCell(lat, lng - 0.05, 8)), 0);
+
+  // The half hex is cut to the coast once and then reused
+  const boundary = getHexLandBoundary(hexId, region);
+  assert.equal(boundary?.length, 1);
+  assert.equal(getHexLandBoundary(hexId, region), boundary);
+});
+
+async function main() {
+  let failures = 0;
+  for (const { name, run } of checks) {
+    try {
+      await run();
+      console.log(`ok    ${name}`);
+    } catch (error) {
+      failures++;
+      console.log(`FAIL  ${name}`);
+      console.log(`      ${error instanceof Error ? error.message.split('\n').join('\n      ') : error}`);
+    }
+  }
+  rmSync(workDir, { recursive: true, force: true });
+
+  console.log(`\n${checks.length - failures}/${checks.length} checks passed`);
+  if (failures > 0) {
+    process.exit(1);
+  }
+}
+
+main();
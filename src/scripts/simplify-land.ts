@@ -0,0 +1,221 @@
+/**
+ * Simplify the land polygons of a region into a light mask
+ *
+ *   npm run simplify-land -- --tolerance 20
+ *   npm run simplify-land -- --region espoo --tolerance 50 --output /tmp/espoo-light.json
+ *
+ * Reads the detailed land polygons (--input, defaults to src/data/<region>-land.json) and
+ * writes a simplified copy (--output, defaults to src/data/<region>-land-light.json) that the
+ * app uses for land coverage checks, while the detailed polygons stay in use for drawing
+ * hexes cut to the coastline.
+ *
+ * Rings are simplified with Douglas-Peucker in metres. Every ring keeps at least three
+ * corners so no island vanishes, and a ring that would get a new crossing with another
+ * ring or itself, or turn inside out, is simplified again with a smaller tolerance (or
+ * left as it was), so islands never merge with each other or the mainland.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FeatureCollection, MultiPolygon, Polygon } from 'geojson';
+import { findRingIntersections, isCounterClockwise, type LngLat } from '../utils/geometry';
+import { parseRegionArg } from './lib/region-arg';
+
+const DEFAULT_TOLERANCE_METERS = 20;
+// Rings still conflicting below this tolerance are kept unsimplified
+const MIN_TOLERANCE_METERS = 0.5;
+
+const METERS_PER_DEGREE = 111_320;
+
+type Point = [number, number];
+
+interface SimplifiedRing {
+  ring: LngLat[];
+  // Largest distance from a dropped vertex to the simplified outline, in metres
+  deviation: number;
+}
+
+function getArgValue(flag: string): string | null {
+  const index = process.argv.indexOf(flag);
+  if (index === -1 || !process.argv[index + 1]) {
+    return null;
+  }
+  return process.argv[index + 1];
+}
+
+function distanceToSegment([px, py]: Point, [ax, ay]: Point, [bx, by]: Point): number {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared));
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+}
+
+/**
+ * Douglas-Peucker on an open line. Marks the vertices to keep in `keep` and
+ * returns the largest distance of a dropped vertex from the simplified line.
+ */
+function douglasPeucker(points: Point[], first: number, last: number, tolerance: number, keep: boolean[]): number {
+  let deviation = 0;
+  const stack: [number, number][] = [[first, last]];
+
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let farthest = -1;
+    let farthestDistance = 0;
+    for (let i = start + 1; i < end; i++) {
+      const distance = distanceToSegment(points[i], points[start], points[end]);
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    }
+
+    if (farthest !== -1 && farthestDistance > tolerance) {
+      keep[farthest] = true;
+      stack.push([start, farthest], [farthest, end]);
+    } else {
+      deviation = Math.max(deviation, farthestDistance);
+    }
+  }
+
+  return deviation;
+}
+
+/**
+ * Simplify a closed ring. The ring is split at its first vertex and the vertex
+ * farthest from it, and each half is simplified on its own, so at least three
+ * corners are left.
+ */
+function simplifyRing(ring: LngLat[], tolerance: number, latitude: number): SimplifiedRing {
+  const corners = ring.length - 1;
+  if (corners <= 3) {
+    return { ring, deviation: 0 };
+  }
+
+  const xScale = METERS_PER_DEGREE * Math.cos((latitude * Math.PI) / 180);
+  const points = ring.map(([lng, lat]): Point => [lng * xScale, lat * METERS_PER_DEGREE]);
+
+  let split = 1;
+  for (let i = 2; i < corners; i++) {
+    if (Math.hypot(points[i][0] - points[0][0], points[i][1] - points[0][1]) >
+      Math.hypot(points[split][0] - points[0][0], points[split][1] - points[0][1])) {
+      split = i;
+    }
+  }
+
+  const keep = ring.map((_, i) => i === 0 || i === split || i === corners);
+  const deviation = Math.max(
+    douglasPeucker(points, 0, split, tolerance, keep),
+    douglasPeucker(points, split, corners, tolerance, keep)
+  );
+
+  if (keep.filter(Boolean).length < 4) {
+    // Only the two split vertices are left: keep the vertex farthest from the line between them
+    let third = 1;
+    let thirdDistance = -1;
+    for (let i = 1; i < corners; i++) {
+      const distance = i === split ? -1 : distanceToSegment(points[i], points[0], points[split]);
+      if (distance > thirdDistance) {
+        third = i;
+        thirdDistance = distance;
+      }
+    }
+    keep[third] = true;
+  }
+
+  return { ring: ring.filter((_, i) => keep[i]), deviation };
+}
+
+// Number of crossings per pair of rings, keyed "first-second"
+function countIntersections(rings: LngLat[][]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const { rings: [first, second] } of findRingIntersections(rings, Infinity)) {
+    const key = `${first}-${second}`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function toPolygons(geometry: Polygon | MultiPolygon): LngLat[][][] {
+  return (geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates) as LngLat[][][];
+}
+
+function main() {
+  const region = parseRegionArg();
+  const inputPath = getArgValue('--input') ?? path.join(process.cwd(), `src/data/${region.id}-land.json`);
+  const outputPath = getArgValue('--output') ?? path.join(process.cwd(), `src/data/${region.id}-land-light.json`);
+  const tolerance = Number(getArgValue('--tolerance') ?? DEFAULT_TOLERANCE_METERS);
+  if (!Number.isFinite(tolerance) || tolerance <= 0) {
+    console.error('--tolerance must be a positive number of metres');
+    process.exit(1);
+  }
+  if (!fs.existsSync(inputPath)) {
+    console.error(`Land polygons not found: ${inputPath} (run create-land-polygon first)`);
+    process.exit(1);
+  }
+
+  const land: FeatureCollection<Polygon | MultiPolygon> = JSON.parse(fs.readFileSync(inputPath, 'utf-8'));
+  const latitude = (region.bounds.north + region.bounds.south) / 2;
+
+  // Every ring of every feature, simplified independently first
+  const rings = land.features.flatMap((feature) => toPolygons(feature.geometry).flat());
+  const tolerances = rings.map(() => tolerance);
+  const results = rings.map((ring) => simplifyRing(ring, tolerance, latitude));
+
+  // Re-simplify rings that cross something more often than before, or flip
+  // orientation, until none are left. The input may already have a few crossings.
+  const existing = countIntersections(rings);
+  let retried = 0;
+  for (;;) {
+    const conflicting = new Set<number>();
+    for (const [key, count] of countIntersections(results.map((result) => result.ring))) {
+      if (count > (existing.get(key) ?? 0)) {
+        key.split('-').forEach((r) => conflicting.add(Number(r)));
+      }
+    }
+    results.forEach((result, r) => {
+      if (isCounterClockwise(result.ring) !== isCounterClockwise(rings[r])) conflicting.add(r);
+    });
+
+    // Rings that were already left unsimplified cannot get any better
+    const pending = [...conflicting].filter((r) => results[r].ring !== rings[r]);
+    if (pending.length === 0) break;
+
+    for (const r of pending) {
+      if (tolerances[r] === tolerance) retried++;
+      tolerances[r] /= 2;
+      results[r] = tolerances[r] < MIN_TOLERANCE_METERS
+        ? { ring: rings[r], deviation: 0 }
+        : simplifyRing(rings[r], tolerances[r], latitude);
+    }
+  }
+
+  let next = 0;
+  const output: FeatureCollection<Polygon | MultiPolygon> = {
+    ...land,
+    features: land.features.map((feature) => {
+      const polygons = toPolygons(feature.geometry).map((polygon) => polygon.map(() => results[next++].ring));
+      return {
+        ...feature,
+        geometry: feature.geometry.type === 'Polygon'
+          ? { type: 'Polygon', coordinates: polygons[0] }
+          : { type: 'MultiPolygon', coordinates: polygons },
+      };
+    }),
+  };
+  fs.writeFileSync(outputPath, JSON.stringify(output));
+
+  const before = rings.reduce((sum, ring) => sum + ring.length, 0);
+  const after = results.reduce((sum, result) => sum + result.ring.length, 0);
+  const deviation = Math.max(...results.map((result) => result.deviation));
+  const unchanged = results.filter((result, r) => result.ring === rings[r] && rings[r].length > 4).length;
+
+  console.log(`Region: ${region.name} | Tolerance: ${tolerance} m`);
+  console.log(`  Rings: ${rings.length} (${retried} needed a smaller tolerance, ${unchanged} left as they were)`);
+  console.log(`  Vertices: ${before} -> ${after} (${((1 - after / before) * 100).toFixed(1)}% fewer)`);
+  console.log(`  Maximum deviation: ${deviation.toFixed(1)} m`);
+  console.log(`Wrote ${outputPath}`);
+}
+
+main();
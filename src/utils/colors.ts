@@ -1,9 +1,13 @@
+import type { ColorScale } from './colorscales';
+
 /**
- * Color scale for travel times
+ * Default color scale for travel times
  * 0-15 min: Green
  * 15-30 min: Yellow
  * 30-45 min: Orange
  * 45+ min: Red
+ *
+ * Other palettes and breaks are built in colorscales.ts
  */
 
 export interface ColorStop {
@@ -21,15 +25,120 @@ export const COLOR_STOPS: ColorStop[] = [
 ];
 
 /**
- * Get the color for a given travel time in minutes
+ * Color scale for data age (days since the hex was fetched)
+ */
+export const DATA_AGE_STOPS: ColorStop[] = [
+  { min: 0, max: 30, color: '#0ea5e9', label: 'Under 1 month' },
+  { min: 30, max: 90, color: '#6366f1', label: '1-3 months' },
+  { min: 90, max: 180, color: '#a855f7', label: '3-6 months' },
+  { min: 180, max: Infinity, color: '#be185d', label: '6+ months' },
+];
+
+// Hexes whose data does not record when it was fetched
+export const UNKNOWN_AGE_COLOR = '#9ca3af';
+
+// Hexes that can reach the destination but have no route back
+export const NO_RETURN_COLOR = '#7f1d1d';
+
+/**
+ * Color scale for direction asymmetry (return minus outbound minutes)
+ * Differences up to the threshold are drawn in neutral gray
+ */
+export function getAsymmetryStops(threshold: number): ColorStop[] {
+  return [
+    { min: -Infinity, max: -threshold, color: '#0ea5e9', label: `Back ${threshold}+ min faster` },
+    { min: -threshold, max: threshold, color: '#d1d5db', label: `Within ${threshold} min` },
+    { min: threshold, max: Infinity, color: '#f97316', label: `Back ${threshold}+ min slower` },
+  ];
+}
+
+/**
+ * Color scale for the composite livability score (0-100, higher is better)
  */
-export function getTravelTimeColor(minutes: number): string {
-  for (const stop of COLOR_STOPS) {
-    if (minutes >= stop.min && minutes < stop.max) {
+export const LIVABILITY_STOPS: ColorStop[] = [
+  { min: 75, max: Infinity, color: '#22c55e', label: '75-100' },
+  { min: 50, max: 75, color: '#eab308', label: '50-75' },
+  { min: 25, max: 50, color: '#f97316', label: '25-50' },
+  { min: -Infinity, max: 25, color: '#ef4444', label: '0-25' },
+];
+
+// Hexes that no weighted indicator covers
+export const NO_LIVABILITY_COLOR = '#9ca3af';
+
+/**
+ * Diverging color scale for the change in minutes against a baseline dataset
+ * Changes are whole minutes; blue is faster, red is slower
+ */
+export const CHANGE_STOPS: ColorStop[] = [
+  { min: -Infinity, max: -9.5, color: '#1d4ed8', label: '10+ min faster' },
+  { min: -9.5, max: -4.5, color: '#60a5fa', label: '5-9 min faster' },
+  { min: -4.5, max: -0.5, color: '#bfdbfe', label: '1-4 min faster' },
+  { min: -0.5, max: 0.5, color: '#e5e7eb', label: 'No change' },
+  { min: 0.5, max: 4.5, color: '#fecaca', label: '1-4 min slower' },
+  { min: 4.5, max: 9.5, color: '#f87171', label: '5-9 min slower' },
+  { min: 9.5, max: Infinity, color: '#b91c1c', label: '10+ min slower' },
+];
+
+// Hexes that are missing from one of the compared datasets
+export const NOT_COMPARED_COLOR = '#9ca3af';
+
+// What the hex fill color shows
+export type HexColorBy = 'travel-time' | 'data-age' | 'livability' | 'change';
+
+function getStopColor(stops: ColorStop[], value: number): string {
+  for (const stop of stops) {
+    if (value >= stop.min && value < stop.max) {
       return stop.color;
     }
   }
-  return COLOR_STOPS[COLOR_STOPS.length - 1].color;
+  return stops[stops.length - 1].color;
+}
+
+/**
+ * Whether a value falls in one of the given bands (the open-ended last band
+ * also holds markers such as "no route back")
+ */
+export function isInStops(stops: ColorStop[], value: number): boolean {
+  return stops.some((stop) => value >= stop.min && (value < stop.max || stop.max === Infinity));
+}
+
+/**
+ * Get the color for a given travel time in minutes, on the selected scale
+ * (the default bands when none is given)
+ */
+export function getTravelTimeColor(minutes: number, scale?: ColorScale | null): string {
+  return scale ? scale.getColor(minutes) : getStopColor(COLOR_STOPS, minutes);
+}
+
+/**
+ * Get the color for a data age in days (gray when unknown)
+ */
+export function getDataAgeColor(days: number | undefined): string {
+  return days === undefined ? UNKNOWN_AGE_COLOR : getStopColor(DATA_AGE_STOPS, days);
+}
+
+/**
+ * Get the color for a livability score (gray when no indicator covers the hex)
+ */
+export function getLivabilityColor(score: number | undefined): string {
+  return score === undefined ? NO_LIVABILITY_COLOR : getStopColor(LIVABILITY_STOPS, score);
+}
+
+/**
+ * Get the color for a change in minutes (gray when the hex is not in both datasets)
+ */
+export function getChangeColor(minutes: number | undefined): string {
+  return minutes === undefined ? NOT_COMPARED_COLOR : getStopColor(CHANGE_STOPS, minutes);
+}
+
+/**
+ * Get the color for a return minus outbound difference in minutes
+ */
+export function getAsymmetryColor(minutes: number, threshold: number): string {
+  if (minutes === Infinity) {
+    return NO_RETURN_COLOR;
+  }
+  return getStopColor(getAsymmetryStops(threshold), minutes);
 }
 
 /**
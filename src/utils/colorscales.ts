@@ -0,0 +1,168 @@
+import type { ColorStop } from './colors';
+import { percentile } from './statistics';
+
+/**
+ * Color scales for travel times
+ *
+ * A scale combines a palette (colors from short to long trips) with a way of
+ * choosing band breaks: the fixed 15-minute bands, equal intervals or
+ * quantiles of the values on the map, breaks typed in by the user, or a
+ * continuous ramp without bands.
+ */
+
+export type PaletteId = 'traffic' | 'viridis' | 'cividis' | 'magma';
+
+export const PALETTES: { id: PaletteId; label: string; colors: string[] }[] = [
+  { id: 'traffic', label: 'Green to red', colors: ['#22c55e', '#eab308', '#f97316', '#ef4444'] },
+  // The perceptually uniform matplotlib palettes, bright for short trips
+  { id: 'viridis', label: 'Viridis (colorblind safe)', colors: ['#fde725', '#7ad151', '#22a884', '#2a788e', '#414487', '#440154'] },
+  { id: 'cividis', label: 'Cividis (colorblind safe)', colors: ['#fee838', '#c8b866', '#948e77', '#666970', '#35456c', '#00224e'] },
+  { id: 'magma', label: 'Magma (colorblind safe)', colors: ['#fcfdbf', '#fc8961', '#b73779', '#51127c', '#000004'] },
+];
+
+export type BreakMethod = 'fixed' | 'equal-interval' | 'quantile' | 'custom' | 'continuous';
+
+export const BREAK_METHODS: { id: BreakMethod; label: string }[] = [
+  { id: 'fixed', label: '15-minute bands' },
+  { id: 'equal-interval', label: 'Equal intervals' },
+  { id: 'quantile', label: 'Quantiles' },
+  { id: 'custom', label: 'Custom breaks' },
+  { id: 'continuous', label: 'Continuous' },
+];
+
+export interface ColorScaleConfig {
+  palette: PaletteId;
+  method: BreakMethod;
+  // Number of bands for equal intervals and quantiles
+  classes: number;
+  // Upper bounds of all but the last band, in minutes, for custom breaks
+  customBreaks: number[];
+}
+
+export const DEFAULT_COLOR_SCALE_CONFIG: ColorScaleConfig = {
+  palette: 'traffic',
+  method: 'fixed',
+  classes: 5,
+  customBreaks: [10, 20, 25, 30, 45],
+};
+
+export const MIN_CLASSES = 2;
+export const MAX_CLASSES = 9;
+
+// Breaks of the fixed bands, for one-way trips
+export const FIXED_BREAKS = [15, 30, 45];
+
+export interface ColorScale {
+  // Bands of the scale; a continuous scale lists bands for summaries but colors by interpolation
+  stops: ColorStop[];
+  continuous: boolean;
+  // Values mapped to the ends of the ramp of a continuous scale
+  domain: [number, number];
+  // Palette colors from the low to the high end, for drawing the ramp
+  colors: string[];
+  getColor: (minutes: number) => string;
+}
+
+function parseHex(color: string): [number, number, number] {
+  return [1, 3, 5].map((i) => parseInt(color.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+function toHex(rgb: number[]): string {
+  return `#${rgb.map((c) => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Color at position t (0-1) along a palette, interpolated in RGB
+ */
+export function interpolateColors(colors: string[], t: number): string {
+  if (colors.length === 1) return colors[0];
+  const position = Math.min(1, Math.max(0, t)) * (colors.length - 1);
+  const index = Math.min(colors.length - 2, Math.floor(position));
+  const from = parseHex(colors[index]);
+  const to = parseHex(colors[index + 1]);
+  const fraction = position - index;
+  return toHex(from.map((c, i) => c + (to[i] - c) * fraction));
+}
+
+// Evenly spaced colors along a palette, one per band
+function sampleColors(colors: string[], count: number): string[] {
+  return Array.from({ length: count }, (_, i) => interpolateColors(colors, count === 1 ? 0 : i / (count - 1)));
+}
+
+function bandLabel(min: number, max: number): string {
+  return max === Infinity ? `${min}+ min` : `${min}-${max} min`;
+}
+
+// Bands between sorted breaks, from 0 to Infinity
+function stopsFromBreaks(breaks: number[], colors: string[]): ColorStop[] {
+  const bounds = [0, ...breaks, Infinity];
+  const bandColors = sampleColors(colors, bounds.length - 1);
+  return bandColors.map((color, i) => ({
+    min: i === 0 ? -Infinity : bounds[i],
+    max: bounds[i + 1],
+    color,
+    label: bandLabel(bounds[i], bounds[i + 1]),
+  }));
+}
+
+// Whole, increasing, positive breaks without duplicates
+function cleanBreaks(breaks: number[]): number[] {
+  return [...new Set(breaks.filter((b) => Number.isFinite(b) && b > 0).map((b) => Math.round(b)))].sort((a, b) => a - b);
+}
+
+/**
+ * Build a scale from its configuration. Equal intervals, quantiles and the
+ * continuous ramp are fitted to the given values (the minutes on the map);
+ * `fixedBreaks` sets the fixed bands, e.g. doubled for round trips.
+ */
+export function buildColorScale(config: ColorScaleConfig, values: number[], fixedBreaks = FIXED_BREAKS): ColorScale {
+  const palette = PALETTES.find((p) => p.id === config.palette) ?? PALETTES[0];
+  const finite = values.filter((value) => Number.isFinite(value));
+  const low = finite.length > 0 ? Math.min(...finite) : 0;
+  const high = finite.length > 0 ? Math.max(...finite) : fixedBreaks[fixedBreaks.length - 1] * 2;
+  const classes = Math.min(MAX_CLASSES, Math.max(MIN_CLASSES, config.classes));
+
+  let breaks: number[];
+  switch (config.method) {
+    case 'quantile':
+      breaks = Array.from({ length: classes - 1 }, (_, i) => percentile(finite, ((i + 1) / classes) * 100));
+      break;
+    case 'custom':
+      breaks = config.customBreaks;
+      break;
+    case 'equal-interval':
+    case 'continuous':
+      breaks = Array.from({ length: classes - 1 }, (_, i) => low + ((high - low) * (i + 1)) / classes);
+      break;
+    default:
+      breaks = fixedBreaks;
+  }
+
+  const stops = stopsFromBreaks(cleanBreaks(breaks), palette.colors);
+  const domain: [number, number] = [Math.round(low), Math.max(Math.round(high), Math.round(low) + 1)];
+
+  if (config.method === 'continuous') {
+    return {
+      stops,
+      continuous: true,
+      domain,
+      colors: palette.colors,
+      getColor: (minutes) => interpolateColors(palette.colors, (minutes - domain[0]) / (domain[1] - domain[0])),
+    };
+  }
+
+  return {
+    stops,
+    continuous: false,
+    domain,
+    colors: palette.colors,
+    getColor: (minutes) => stops.find((stop) => minutes >= stop.min && minutes < stop.max)?.color ?? stops[stops.length - 1].color,
+  };
+}
+
+/**
+ * Parse custom breaks typed as a list of minutes, e.g. "10, 20, 30"
+ */
+export function parseBreaks(text: string): number[] {
+  return cleanBreaks(text.split(/[\s,;]+/).filter(Boolean).map(Number));
+}
@@ -0,0 +1,63 @@
+import type { HexTravelTimeDataset } from './scoring';
+import { isTravelMode, type ModeDataset } from './modes';
+
+/**
+ * Hex score dataset files (data/hex-scores/<destination>.json)
+ *
+ * Three layouts exist on disk:
+ * - v0: flat { hexId: minutes } or { hexId: stats }, transit only
+ * - v1: { mode: { hexId: stats } }
+ * - v2: { version: 2, modes: { mode: { hexId: record } } }, records carry itinerary details
+ *   and, when fetched by newer runs, the fetch time and routing source
+ *
+ * Everything is read into a ModeDataset; new files are always written as the current version.
+ */
+
+export const DATASET_VERSION = 2;
+
+export interface DatasetFile {
+  version: number;
+  modes: ModeDataset;
+}
+
+export type RawDataset = DatasetFile | ModeDataset | HexTravelTimeDataset;
+
+function isDatasetFile(raw: RawDataset): raw is DatasetFile {
+  return typeof (raw as DatasetFile).version === 'number' && typeof (raw as DatasetFile).modes === 'object';
+}
+
+/**
+ * Read any dataset layout into per-mode datasets
+ */
+export function parseDataset(raw: RawDataset): ModeDataset {
+  if (isDatasetFile(raw)) {
+    if (raw.version > DATASET_VERSION) {
+      console.warn(`Dataset version ${raw.version} is newer than supported version ${DATASET_VERSION}`);
+    }
+    return raw.modes;
+  }
+
+  const keys = Object.keys(raw);
+  if (keys.length > 0 && keys.every(isTravelMode)) {
+    return raw as ModeDataset;
+  }
+  return { transit: raw as HexTravelTimeDataset };
+}
+
+/**
+ * Keep only the given hexes in every mode
+ */
+export function filterDatasetHexes(dataset: ModeDataset, hexIds: Set<string>): ModeDataset {
+  const result: ModeDataset = {};
+  for (const [mode, values] of Object.entries(dataset) as [keyof ModeDataset, HexTravelTimeDataset][]) {
+    result[mode] = Object.fromEntries(Object.entries(values).filter(([hexId]) => hexIds.has(hexId)));
+  }
+  return result;
+}
+
+/**
+ * Wrap per-mode datasets in the current file layout
+ */
+export function serializeDataset(modes: ModeDataset): DatasetFile {
+  return { version: DATASET_VERSION, modes };
+}
@@ -0,0 +1,100 @@
+import destinationsData from '../data/destinations.json';
+import type { ModeDataset } from './modes';
+import { parseDataset, type RawDataset } from './dataset';
+
+export interface Destination {
+  id: string;
+  name: string;
+  description?: string;
+  lat: number;
+  lng: number;
+}
+
+export const DESTINATIONS: Destination[] = destinationsData;
+
+// Destination used when no explicit choice has been made
+export const DEFAULT_DESTINATION_ID = 'city-center';
+
+// One dataset per destination, written by fetch-travel-times to data/hex-scores/<id>.json
+const datasetModules = import.meta.glob<RawDataset>('../data/hex-scores/*.json', {
+  eager: true,
+  import: 'default',
+});
+
+const datasetsByDestination: Record<string, ModeDataset> = {};
+for (const [path, scores] of Object.entries(datasetModules)) {
+  const id = path.slice(path.lastIndexOf('/') + 1, -'.json'.length);
+  datasetsByDestination[id] = parseDataset(scores);
+}
+
+// Earlier datasets to compare against, in data/hex-scores/baselines/<id>/<label>.json
+// (kept by running fetch-travel-times with --keep-baseline <label>)
+const baselineModules = import.meta.glob<RawDataset>('../data/hex-scores/baselines/*/*.json', {
+  eager: true,
+  import: 'default',
+});
+
+const baselinesByDestination: Record<string, Record<string, ModeDataset>> = {};
+for (const [path, scores] of Object.entries(baselineModules)) {
+  const [id, file] = path.split('/').slice(-2);
+  if (!baselinesByDestination[id]) {
+    baselinesByDestination[id] = {};
+  }
+  baselinesByDestination[id][file.slice(0, -'.json'.length)] = parseDataset(scores);
+}
+
+/**
+ * Destinations that have a travel time dataset available
+ */
+export function getAvailableDestinations(): Destination[] {
+  return DESTINATIONS.filter((d) => d.id in datasetsByDestination);
+}
+
+/**
+ * Look up a destination by id, falling back to the default destination
+ */
+export function getDestination(id: string): Destination {
+  return (
+    DESTINATIONS.find((d) => d.id === id) ??
+    DESTINATIONS.find((d) => d.id === DEFAULT_DESTINATION_ID) ??
+    DESTINATIONS[0]
+  );
+}
+
+/**
+ * Get the per-mode travel time datasets for a destination (empty if not fetched yet)
+ */
+export function getDestinationDataset(id: string): ModeDataset {
+  return datasetsByDestination[id] ?? {};
+}
+
+/**
+ * A dataset the current one can be compared against
+ */
+export interface ComparisonDataset {
+  // "<destination>/<baseline label>" for baselines, the destination id for current datasets
+  key: string;
+  label: string;
+}
+
+/**
+ * Datasets a destination can be compared against: its own baselines (sorted by
+ * label), then the current datasets of the other destinations
+ */
+export function getComparisonDatasets(id: string): ComparisonDataset[] {
+  const baselines = Object.keys(baselinesByDestination[id] ?? {})
+    .sort()
+    .map((label) => ({ key: `${id}/${label}`, label }));
+  const others = getAvailableDestinations()
+    .filter((d) => d.id !== id)
+    .map((d) => ({ key: d.id, label: d.name }));
+  return [...baselines, ...others];
+}
+
+/**
+ * Get a dataset to compare against by its key (empty if there is none)
+ */
+export function getComparisonDataset(key: string): ModeDataset {
+  const [id, label] = key.split('/');
+  return label === undefined ? getDestinationDataset(id) : baselinesByDestination[id]?.[label] ?? {};
+}
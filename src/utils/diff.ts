@@ -0,0 +1,69 @@
+import type { HexScoreMap } from './scoring';
+
+/**
+ * Before/after comparison of two datasets
+ *
+ * Baselines are earlier copies of a destination's dataset, kept in
+ * data/hex-scores/baselines/<destination>/<label>.json (fetch-travel-times
+ * --keep-baseline <label> copies the dataset there before refetching).
+ * The current dataset of another destination can be compared as well.
+ * Deltas are current minus compared minutes, so negative values are improvements.
+ */
+
+/**
+ * Change in minutes of every hex that has a value in both datasets
+ */
+export function diffScores(before: HexScoreMap, after: HexScoreMap): HexScoreMap {
+  const result: HexScoreMap = {};
+  for (const [hexId, value] of Object.entries(after)) {
+    const previous = before[hexId];
+    // Markers such as "no route back" are not minutes and cannot be compared
+    if (previous !== undefined && Number.isFinite(previous) && Number.isFinite(value)) {
+      result[hexId] = Math.round(value - previous);
+    }
+  }
+  return result;
+}
+
+export interface DiffSummary {
+  improved: number;
+  worsened: number;
+  unchanged: number;
+  // Mean change over the hexes' buildings (NaN when no compared hex has buildings)
+  buildingWeightedChange: number;
+}
+
+/**
+ * Count improved and worsened hexes and the building-weighted mean change.
+ * Only hexes with buildings count when building counts are given.
+ */
+export function summarizeDiff(deltas: HexScoreMap, buildingCounts?: Map<string, number>): DiffSummary {
+  const summary: DiffSummary = { improved: 0, worsened: 0, unchanged: 0, buildingWeightedChange: NaN };
+  let weightedSum = 0;
+  let totalBuildings = 0;
+
+  for (const [hexId, delta] of Object.entries(deltas)) {
+    const buildings = buildingCounts ? buildingCounts.get(hexId) ?? 0 : 1;
+    if (buildings === 0) continue;
+
+    if (delta < 0) summary.improved++;
+    else if (delta > 0) summary.worsened++;
+    else summary.unchanged++;
+    weightedSum += delta * buildings;
+    totalBuildings += buildings;
+  }
+
+  if (totalBuildings > 0) {
+    summary.buildingWeightedChange = weightedSum / totalBuildings;
+  }
+  return summary;
+}
+
+/**
+ * Format a change in minutes for display, e.g. "5 min faster"
+ */
+export function formatChange(minutes: number): string {
+  if (Math.round(minutes * 10) === 0) return 'No change';
+  const rounded = Math.abs(minutes) < 10 ? Math.abs(minutes).toFixed(1).replace(/\.0$/, '') : Math.round(Math.abs(minutes));
+  return `${rounded} min ${minutes < 0 ? 'faster' : 'slower'}`;
+}
@@ -0,0 +1,115 @@
+import type { HexScoreMap, HexTravelTimeDataset, TravelTimeStatistic } from './scoring';
+
+/**
+ * Trip direction shown on the map
+ *
+ * Datasets store the trip from every hex to the destination and, when fetched
+ * with a return window, the trip back from the destination to the hex.
+ */
+export type TravelDirection = 'to' | 'from' | 'round-trip' | 'asymmetry';
+
+export const TRAVEL_DIRECTIONS: { id: TravelDirection; label: string }[] = [
+  { id: 'to', label: 'To destination' },
+  { id: 'from', label: 'From destination' },
+  { id: 'round-trip', label: 'Round trip' },
+  { id: 'asymmetry', label: 'Difference between directions' },
+];
+
+// Minutes the two directions must differ by to stand out in the asymmetry view
+export const DEFAULT_ASYMMETRY_THRESHOLD = 15;
+
+// Asymmetry of hexes that can reach the destination but have no route back
+export const NO_RETURN_ROUTE = Infinity;
+
+/**
+ * Scores of both directions at one resolution
+ */
+export interface DirectionalScores {
+  to: HexScoreMap;
+  from: HexScoreMap;
+  // Hexes whose return trip was asked for but has no route (value 1)
+  noReturn: HexScoreMap;
+}
+
+/**
+ * Pick one statistic of the return trip from every hex that has one (and
+ * enough departures with a route for the statistic)
+ */
+export function getReturnScores(dataset: HexTravelTimeDataset, statistic: TravelTimeStatistic): HexScoreMap {
+  const result: HexScoreMap = {};
+  for (const [hexId, value] of Object.entries(dataset)) {
+    if (typeof value !== 'number' && 'returnTrip' in value && value.returnTrip) {
+      const minutes = value.returnTrip[statistic];
+      if (minutes !== null) {
+        result[hexId] = minutes;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Hexes without a route back from the destination, as a score map so they
+ * aggregate to lower resolutions like any other score. With a statistic, hexes
+ * whose way back has too few departures with a route for it count as well.
+ */
+export function getMissingReturns(dataset: HexTravelTimeDataset, statistic?: TravelTimeStatistic): HexScoreMap {
+  const result: HexScoreMap = {};
+  for (const [hexId, value] of Object.entries(dataset)) {
+    if (typeof value === 'number' || !('returnTrip' in value) || value.returnTrip === undefined) continue;
+    if (value.returnTrip === null || (statistic && value.returnTrip[statistic] === null)) {
+      result[hexId] = 1;
+    }
+  }
+  return result;
+}
+
+/**
+ * Whether return trips were fetched for any hex of the dataset
+ */
+export function hasReturnTrips(dataset: HexTravelTimeDataset): boolean {
+  return Object.values(dataset).some(
+    (value) => typeof value !== 'number' && 'returnTrip' in value && value.returnTrip !== undefined
+  );
+}
+
+/**
+ * Departure window of the return trips in a dataset (null if none were fetched)
+ */
+export function getReturnWindow(dataset: HexTravelTimeDataset): string | null {
+  for (const value of Object.values(dataset)) {
+    if (typeof value !== 'number' && 'returnTrip' in value && value.returnTrip) {
+      return value.returnTrip.window;
+    }
+  }
+  return null;
+}
+
+/**
+ * Combine the two directions into the values shown for a direction view.
+ * Round trips and asymmetry (return minus outbound minutes) need both directions.
+ */
+export function combineDirections(scores: DirectionalScores, direction: TravelDirection): HexScoreMap {
+  if (direction === 'to') return scores.to;
+  if (direction === 'from') return scores.from;
+
+  const result: HexScoreMap = {};
+  for (const [hexId, to] of Object.entries(scores.to)) {
+    const from = scores.from[hexId];
+    if (from !== undefined) {
+      result[hexId] = direction === 'round-trip' ? to + from : from - to;
+    } else if (direction === 'asymmetry' && scores.noReturn[hexId] !== undefined) {
+      result[hexId] = NO_RETURN_ROUTE;
+    }
+  }
+  return result;
+}
+
+/**
+ * Format an asymmetry for display, e.g. "12 min slower back"
+ */
+export function formatAsymmetry(minutes: number): string {
+  if (minutes === NO_RETURN_ROUTE) return 'No route back';
+  if (minutes === 0) return 'Same time both ways';
+  return `${Math.abs(Math.round(minutes))} min ${minutes > 0 ? 'slower' : 'faster'} back`;
+}
@@ -0,0 +1,91 @@
+import { gridDiskDistances } from 'h3-js';
+import type { HexScoreMap } from './scoring';
+import { median } from './statistics';
+
+/**
+ * Gap filling for hexes without route data
+ *
+ * A hex that has buildings but no travel time (the router found no route, or
+ * the hex was never fetched) is estimated from the measured hexes in the
+ * rings around it. Estimates are kept apart from measured scores so the map
+ * can mark them, and are never used as neighbours for other estimates.
+ */
+
+export type GapFillMethod = 'none' | 'idw' | 'median';
+
+export const GAP_FILL_METHODS: { id: GapFillMethod; label: string }[] = [
+  { id: 'none', label: 'Leave empty' },
+  { id: 'idw', label: 'Inverse distance' },
+  { id: 'median', label: 'Median of neighbours' },
+];
+
+export const DEFAULT_GAP_FILL_METHOD: GapFillMethod = 'idw';
+// Rings of neighbours searched around a missing hex
+export const DEFAULT_GAP_FILL_RADIUS = 2;
+export const MAX_GAP_FILL_RADIUS = 4;
+
+/**
+ * Estimated value of a hex and how many measured neighbours it is based on
+ */
+export interface EstimatedScore {
+  value: number;
+  neighbours: number;
+}
+
+export type EstimatedScoreMap = Record<string, EstimatedScore>;
+
+/**
+ * Estimate the hexes that have no score from their measured neighbours within
+ * `radius` rings. Inverse distance weights each neighbour by 1 / rings²;
+ * median takes the median of all neighbours. Hexes without measured
+ * neighbours are left out.
+ */
+export function fillGaps(
+  hexIds: string[],
+  scores: HexScoreMap,
+  method: GapFillMethod,
+  radius = DEFAULT_GAP_FILL_RADIUS
+): EstimatedScoreMap {
+  const result: EstimatedScoreMap = {};
+  if (method === 'none') return result;
+
+  for (const hexId of hexIds) {
+    if (scores[hexId] !== undefined) continue;
+
+    const neighbours: { value: number; distance: number }[] = [];
+    gridDiskDistances(hexId, radius).forEach((ring, distance) => {
+      for (const neighbour of ring) {
+        const value = scores[neighbour];
+        // Skip markers such as "no route back" that are not minutes
+        if (value !== undefined && Number.isFinite(value)) {
+          neighbours.push({ value, distance });
+        }
+      }
+    });
+    if (neighbours.length === 0) continue;
+
+    let value: number;
+    if (method === 'median') {
+      value = median(neighbours.map((n) => n.value));
+    } else {
+      let weightedSum = 0;
+      let totalWeight = 0;
+      for (const { value: neighbourValue, distance } of neighbours) {
+        const weight = 1 / (distance * distance);
+        weightedSum += neighbourValue * weight;
+        totalWeight += weight;
+      }
+      value = weightedSum / totalWeight;
+    }
+    result[hexId] = { value: Math.round(value), neighbours: neighbours.length };
+  }
+
+  return result;
+}
+
+/**
+ * Format the source of an estimate, e.g. "estimated from 5 neighbours"
+ */
+export function formatEstimate(estimate: EstimatedScore): string {
+  return `estimated from ${estimate.neighbours} ${estimate.neighbours === 1 ? 'neighbour' : 'neighbours'}`;
+}
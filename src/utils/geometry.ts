@@ -0,0 +1,212 @@
+/**
+ * Planar and spherical helpers for GeoJSON rings ([lng, lat] positions)
+ */
+
+export type LngLat = [number, number];
+
+// WGS84 equatorial radius, as used for GeoJSON area calculations
+const EARTH_RADIUS_METERS = 6378137;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Shoelace area in square degrees: positive for counter-clockwise rings
+ */
+export function signedRingArea(ring: LngLat[]): number {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return area / 2;
+}
+
+export function isCounterClockwise(ring: LngLat[]): boolean {
+  return signedRingArea(ring) > 0;
+}
+
+/**
+ * Area of a closed ring on the sphere in m² (orientation ignored)
+ */
+export function ringAreaSquareMeters(ring: LngLat[]): number {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [lng1, lat1] = ring[i];
+    const [lng2, lat2] = ring[i + 1];
+    sum += toRadians(lng2 - lng1) * (2 + Math.sin(toRadians(lat1)) + Math.sin(toRadians(lat2)));
+  }
+  return Math.abs((sum * EARTH_RADIUS_METERS * EARTH_RADIUS_METERS) / 2);
+}
+
+/**
+ * Area of a polygon (outer ring minus holes) in m²
+ */
+export function polygonAreaSquareMeters(rings: LngLat[][]): number {
+  const [outer, ...holes] = rings;
+  return holes.reduce((area, hole) => area - ringAreaSquareMeters(hole), ringAreaSquareMeters(outer));
+}
+
+/**
+ * Even-odd point in ring test
+ */
+export function isPointInRing([x, y]: LngLat, ring: LngLat[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Clip a ring to a convex counter-clockwise ring (Sutherland-Hodgman). The
+ * ring being clipped may be concave; the result can then run back and forth
+ * along the clip edge, which does not change its area. Returns [] when
+ * nothing is left.
+ */
+export function clipRingToConvex(ring: LngLat[], clip: LngLat[]): LngLat[] {
+  let output = ring.slice(0, -1);
+
+  for (let c = 0; c < clip.length - 1 && output.length > 0; c++) {
+    const [ax, ay] = clip[c];
+    const [bx, by] = clip[c + 1];
+    const side = ([x, y]: LngLat) => (bx - ax) * (y - ay) - (by - ay) * (x - ax);
+    const input = output;
+    output = [];
+
+    for (let i = 0; i < input.length; i++) {
+      const current = input[i];
+      const previous = input[(i + input.length - 1) % input.length];
+      const currentSide = side(current);
+      const previousSide = side(previous);
+      if ((currentSide >= 0) !== (previousSide >= 0)) {
+        const t = previousSide / (previousSide - currentSide);
+        output.push([previous[0] + t * (current[0] - previous[0]), previous[1] + t * (current[1] - previous[1])]);
+      }
+      if (currentSide >= 0) {
+        output.push(current);
+      }
+    }
+  }
+
+  return output.length >= 3 ? [...output, output[0]] : [];
+}
+
+// Sign of the turn a -> b -> c: positive counter-clockwise, 0 when collinear
+function orientation(a: LngLat, b: LngLat, c: LngLat): number {
+  return Math.sign((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]));
+}
+
+function isOnSegment(p: LngLat, a: LngLat, b: LngLat): boolean {
+  return (
+    Math.min(a[0], b[0]) <= p[0] && p[0] <= Math.max(a[0], b[0]) &&
+    Math.min(a[1], b[1]) <= p[1] && p[1] <= Math.max(a[1], b[1])
+  );
+}
+
+/**
+ * Where two segments cross. Within one ring a vertex touching the other
+ * segment (or a collinear overlap) counts too; separate rings may touch.
+ */
+function segmentConflict(a: LngLat, b: LngLat, c: LngLat, d: LngLat, sameRing: boolean): LngLat | null {
+  const o1 = orientation(a, b, c);
+  const o2 = orientation(a, b, d);
+  const o3 = orientation(c, d, a);
+  const o4 = orientation(c, d, b);
+
+  if (o1 * o2 < 0 && o3 * o4 < 0) {
+    const t = ((c[0] - a[0]) * (d[1] - c[1]) - (c[1] - a[1]) * (d[0] - c[0])) /
+      ((b[0] - a[0]) * (d[1] - c[1]) - (b[1] - a[1]) * (d[0] - c[0]));
+    return [a[0] + t * (b[0] - a[0]), a[1] + t * (b[1] - a[1])];
+  }
+  if (!sameRing) return null;
+
+  // A vertex lying on the other segment's interior, or collinear overlap
+  const same = (p: LngLat, q: LngLat) => p[0] === q[0] && p[1] === q[1];
+  const touching: [number, LngLat, LngLat, LngLat][] = [
+    [o1, c, a, b],
+    [o2, d, a, b],
+    [o3, a, c, d],
+    [o4, b, c, d],
+  ];
+  for (const [o, p, start, end] of touching) {
+    if (o === 0 && isOnSegment(p, start, end) && !same(p, start) && !same(p, end)) {
+      return p;
+    }
+  }
+  return null;
+}
+
+export interface RingIntersection {
+  point: LngLat;
+  rings: [number, number]; // Indexes of the rings involved (the same ring twice for self-intersections)
+}
+
+/**
+ * Points where ring edges cross, or where a ring touches or overlaps itself.
+ * Neighbouring edges of a ring share a vertex and are not compared. Uses a grid
+ * so large polygons are checked in roughly linear time.
+ */
+export function findRingIntersections(rings: LngLat[][], limit = 10): RingIntersection[] {
+  const segments: { ring: number; index: number; count: number; a: LngLat; b: LngLat }[] = [];
+  rings.forEach((ring, r) => {
+    for (let i = 0; i < ring.length - 1; i++) {
+      segments.push({ ring: r, index: i, count: ring.length - 1, a: ring[i], b: ring[i + 1] });
+    }
+  });
+  if (segments.length === 0) return [];
+
+  let west = Infinity, south = Infinity, east = -Infinity, north = -Infinity;
+  for (const { a } of segments) {
+    west = Math.min(west, a[0]);
+    east = Math.max(east, a[0]);
+    south = Math.min(south, a[1]);
+    north = Math.max(north, a[1]);
+  }
+  const cellsPerSide = Math.max(1, Math.ceil(Math.sqrt(segments.length)));
+  const cellWidth = (east - west) / cellsPerSide || 1;
+  const cellHeight = (north - south) / cellsPerSide || 1;
+  const column = (x: number) => Math.min(cellsPerSide - 1, Math.floor((x - west) / cellWidth));
+  const row = (y: number) => Math.min(cellsPerSide - 1, Math.floor((y - south) / cellHeight));
+
+  const grid = new Map<number, number[]>();
+  segments.forEach(({ a, b }, s) => {
+    for (let x = column(Math.min(a[0], b[0])); x <= column(Math.max(a[0], b[0])); x++) {
+      for (let y = row(Math.min(a[1], b[1])); y <= row(Math.max(a[1], b[1])); y++) {
+        const key = y * cellsPerSide + x;
+        if (!grid.has(key)) grid.set(key, []);
+        grid.get(key)!.push(s);
+      }
+    }
+  });
+
+  const found: RingIntersection[] = [];
+  const checked = new Set<number>();
+  for (const cell of grid.values()) {
+    for (let i = 0; i < cell.length; i++) {
+      for (let j = i + 1; j < cell.length; j++) {
+        const [s1, s2] = cell[i] < cell[j] ? [cell[i], cell[j]] : [cell[j], cell[i]];
+        const pair = s1 * segments.length + s2;
+        if (checked.has(pair)) continue;
+        checked.add(pair);
+
+        const first = segments[s1];
+        const second = segments[s2];
+        if (first.ring === second.ring) {
+          const gap = Math.abs(first.index - second.index);
+          if (gap === 1 || gap === first.count - 1) continue;
+        }
+        const conflict = segmentConflict(first.a, first.b, second.a, second.b, first.ring === second.ring);
+        if (conflict) {
+          found.push({ point: conflict, rings: [first.ring, second.ring] });
+          if (found.length >= limit) return found;
+        }
+      }
+    }
+  }
+  return found;
+}
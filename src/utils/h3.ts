@@ -1,53 +1,65 @@
-import { polygonToCells, cellToBoundary, cellToLatLng, cellToParent, latLngToCell } from 'h3-js';
-import booleanPointInPolygon from '@turf/boolean-point-in-polygon';
-import { point, multiPolygon } from '@turf/helpers';
-import type { Feature, MultiPolygon } from 'geojson';
-import landData from '../data/helsinki-land.json';
-
-// Helsinki bounds as a polygon following the coastline (excluding sea)
-// Coordinates are [lat, lng] pairs tracing the land area
-const HELSINKI_POLYGON: [number, number][] = [
-  // Western edge - Espoo border area
-  [60.295, 24.82],
-  [60.275, 24.80],
-  [60.245, 24.80],
-  [60.225, 24.82],
-  // Southwest coast - Lauttasaari area
-  [60.185, 24.83],
-  [60.165, 24.85],
-  [60.155, 24.87],
-  // Southern peninsula - city center coastline
-  [60.150, 24.91],
-  [60.153, 24.95],
-  [60.155, 24.98],
-  // Southeast - Kulosaari, Herttoniemi
-  [60.165, 25.02],
-  [60.175, 25.05],
-  // East - Vuosaari area
-  [60.195, 25.08],
-  [60.205, 25.11],
-  [60.215, 25.14],
-  // Northeast corner
-  [60.245, 25.15],
-  [60.275, 25.14],
-  [60.295, 25.10],
-  // Northern edge
-  [60.295, 25.00],
-  [60.295, 24.90],
-  // Close polygon
-  [60.295, 24.82],
-];
-
-// Create a MultiPolygon from the land data for efficient point-in-polygon checks
-const landPolygons: Feature<MultiPolygon> = multiPolygon(
-  (landData as any).features.map((f: any) => f.geometry.coordinates)
-);
-
-// Helsinki Railway Station - city center reference point
-export const CITY_CENTER = {
-  lat: 60.1699,
-  lng: 24.9384,
-};
+import {
+  polygonToCells,
+  cellToBoundary,
+  cellToChildren,
+  cellToLatLng,
+  cellToParent,
+  getResolution,
+  latLngToCell,
+  uncompactCells,
+} from 'h3-js';
+import type { FeatureCollection, MultiPolygon, Polygon } from 'geojson';
+import type { RegionProfile } from './regions';
+import { clipRingToConvex, isCounterClockwise, ringAreaSquareMeters, type LngLat } from './geometry';
+
+interface LandPolygon {
+  rings: LngLat[][]; // Outer ring first, then lakes
+  bbox: [number, number, number, number]; // west, south, east, north
+}
+
+interface LandMask {
+  polygons: LandPolygon[];
+  // Land coverage per hex, computed on first use
+  coverage: Map<string, number>;
+}
+
+interface Coastline {
+  polygons: LandPolygon[];
+  // Outlines of coastal hexes cut to the coastline, computed on first use
+  boundaries: Map<string, [number, number][][][]>;
+}
+
+type LandPolygons = FeatureCollection<Polygon | MultiPolygon>;
+
+function toLandPolygons(land: LandPolygons): LandPolygon[] {
+  return land.features
+    .flatMap((f) => (f.geometry.type === 'Polygon' ? [f.geometry.coordinates] : f.geometry.coordinates))
+    .map((coordinates) => {
+      const rings = coordinates as LngLat[][];
+      const lngs = rings[0].map(([lng]) => lng);
+      const lats = rings[0].map(([, lat]) => lat);
+      return { rings, bbox: [Math.min(...lngs), Math.min(...lats), Math.max(...lngs), Math.max(...lats)] };
+    });
+}
+
+// Land masks (simplified polygons) and detailed coastlines, built lazily per region
+const landMasks = new Map<string, LandMask | null>();
+const coastlines = new Map<string, Coastline | null>();
+
+function getLandMask(region: RegionProfile): LandMask | null {
+  if (!landMasks.has(region.id)) {
+    const land = region.landMask ?? region.land;
+    landMasks.set(region.id, land ? { polygons: toLandPolygons(land), coverage: new Map() } : null);
+  }
+  return landMasks.get(region.id)!;
+}
+
+function getCoastline(region: RegionProfile): Coastline | null {
+  if (!coastlines.has(region.id)) {
+    coastlines.set(region.id, region.land ? { polygons: toLandPolygons(region.land), boundaries: new Map() } : null);
+  }
+  return coastlines.get(region.id)!;
+}
 
 // Base resolution for stored data
 export const BASE_H3_RESOLUTION = 9;
@@ -64,10 +76,14 @@ export function getH3ResolutionForZoom(zoom: number): number {
 }
 
 /**
- * Generate all H3 hex cell IDs covering Helsinki area at given resolution
+ * Generate all H3 hex cell IDs covering a region at given resolution
  */
-export function generateHelsinkiHexes(resolution: number): string[] {
-  return polygonToCells(HELSINKI_POLYGON, resolution);
+export function generateRegionHexes(region: RegionProfile, resolution: number): string[] {
+  if (region.polygons.length === 1) {
+    return polygonToCells(region.polygons[0], resolution);
+  }
+  // Parts may overlap along shared borders; keep each hex once
+  return [...new Set(region.polygons.flatMap((polygon) => polygonToCells(polygon, resolution)))];
 }
 
 export interface MapBounds {
@@ -78,9 +94,75 @@ export interface MapBounds {
 }
 
 /**
- * Generate H3 hex cell IDs within the given viewport bounds (intersected with Helsinki area)
+ * Precomputed study area hexes of a region (src/data/hex-index/<region>.json,
+ * written by npm run build-hex-index)
+ */
+export interface HexIndex {
+  version: number;
+  landCoverage: number;
+  // Compacted H3 cell sets by resolution
+  resolutions: Record<string, string[]>;
+}
+
+// Resolutions covered by the hex index
+export const INDEX_RESOLUTIONS = [6, 7, 8, 9, 10];
+
+/**
+ * Land hexes of a region at any resolution. The base resolution set is the
+ * one the data scripts fetch; coarser resolutions are its parents and finer
+ * ones its children that are on land.
+ */
+export function computeStudyAreaHexes(
+  region: RegionProfile,
+  resolution: number,
+  minCoverage = DEFAULT_LAND_COVERAGE
+): string[] {
+  const base = filterHexesToLand(generateRegionHexes(region, BASE_H3_RESOLUTION), region, minCoverage);
+  if (resolution === BASE_H3_RESOLUTION) return base;
+  if (resolution < BASE_H3_RESOLUTION) {
+    return [...new Set(base.map((hexId) => cellToParent(hexId, resolution)))];
+  }
+  return filterHexesToLand(
+    base.flatMap((hexId) => cellToChildren(hexId, resolution)),
+    region,
+    minCoverage
+  );
+}
+
+// Study area hex sets per region and resolution, expanded from the index on first use
+const studyAreas = new Map<string, Map<number, Set<string>>>();
+
+/**
+ * Set of land hexes in a region at a resolution. Read from the precomputed
+ * index when the region has one, otherwise computed once and kept.
+ */
+export function getStudyAreaHexes(region: RegionProfile, resolution: number): Set<string> {
+  if (!studyAreas.has(region.id)) {
+    studyAreas.set(region.id, new Map());
+  }
+  const byResolution = studyAreas.get(region.id)!;
+
+  if (!byResolution.has(resolution)) {
+    const compacted = region.hexIndex?.resolutions[resolution];
+    byResolution.set(
+      resolution,
+      new Set(compacted ? uncompactCells(compacted, resolution) : computeStudyAreaHexes(region, resolution))
+    );
+  }
+  return byResolution.get(resolution)!;
+}
+
+/**
+ * Check if a hex is in the study area (in the region and on land)
  */
-export function generateHexesInBounds(resolution: number, bounds: MapBounds): string[] {
+export function isHexInStudyArea(hexId: string, region: RegionProfile): boolean {
+  return getStudyAreaHexes(region, getResolution(hexId)).has(hexId);
+}
+
+/**
+ * Generate H3 hex cell IDs within the given viewport bounds (intersected with the study area)
+ */
+export function generateHexesInBounds(resolution: number, bounds: MapBounds, region: RegionProfile): string[] {
   // Create polygon from viewport bounds
   const viewportPolygon: [number, number][] = [
     [bounds.south, bounds.west],
@@ -93,10 +175,10 @@ export function generateHexesInBounds(resolution: number, bounds: MapBounds): st
   // Generate hexes for the viewport
   const viewportHexes = polygonToCells(viewportPolygon, resolution);
 
-  // Intersect with Helsinki bounds to avoid rendering hexes outside our data area
-  const helsinkiHexSet = new Set(polygonToCells(HELSINKI_POLYGON, resolution));
+  // Intersect with the study area to avoid rendering hexes outside our data area
+  const studyArea = getStudyAreaHexes(region, resolution);
 
-  return viewportHexes.filter((hexId) => helsinkiHexSet.has(hexId));
+  return viewportHexes.filter((hexId) => studyArea.has(hexId));
 }
 
 /**
@@ -124,20 +206,97 @@ export function getHexCenter(hexId: string): { lat: number; lng: number } {
   return { lat, lng };
 }
 
+// Share of a hex that has to be land for the hex to count as land
+export const DEFAULT_LAND_COVERAGE = 0.5;
+// Coverage above which a hex is drawn whole rather than clipped
+const FULL_LAND_COVERAGE = 0.999;
+
+// Hex outline as a closed counter-clockwise [lng, lat] ring
+function getHexRing(hexId: string): LngLat[] {
+  const ring = cellToBoundary(hexId).map(([lat, lng]): LngLat => [lng, lat]);
+  ring.push(ring[0]);
+  return isCounterClockwise(ring) ? ring : ring.reverse();
+}
+
+/**
+ * Land polygons of a region clipped to a hex, as [lng, lat] rings per polygon
+ * (outer ring first). Lakes only clip the polygon they belong to.
+ */
+function clipLandToHex(polygons: LandPolygon[], hexRing: LngLat[]): LngLat[][][] {
+  const lngs = hexRing.map(([lng]) => lng);
+  const lats = hexRing.map(([, lat]) => lat);
+  const [west, south, east, north] = [Math.min(...lngs), Math.min(...lats), Math.max(...lngs), Math.max(...lats)];
+
+  const pieces: LngLat[][][] = [];
+  for (const { rings, bbox } of polygons) {
+    if (bbox[0] > east || bbox[2] < west || bbox[1] > north || bbox[3] < south) continue;
+    const outer = clipRingToConvex(rings[0], hexRing);
+    if (outer.length === 0) continue;
+    const holes = rings.slice(1).map((hole) => clipRingToConvex(hole, hexRing)).filter((hole) => hole.length > 0);
+    pieces.push([outer, ...holes]);
+  }
+  return pieces;
+}
+
+/**
+ * Share of a hex cell's area that is on land (0-1), from the hex outline
+ * intersected with the region's simplified land polygons.
+ * Regions without land data treat every hex as land
+ */
+export function getHexLandCoverage(hexId: string, region: RegionProfile): number {
+  const mask = getLandMask(region);
+  if (!mask) return 1;
+
+  let coverage = mask.coverage.get(hexId);
+  if (coverage === undefined) {
+    const hexRing = getHexRing(hexId);
+    const landArea = clipLandToHex(mask.polygons, hexRing).reduce(
+      (sum, [outer, ...holes]) =>
+        sum + ringAreaSquareMeters(outer) - holes.reduce((holeSum, hole) => holeSum + ringAreaSquareMeters(hole), 0),
+      0
+    );
+    // Overlapping land polygons could count an area twice
+    coverage = Math.min(1, Math.max(0, landArea / ringAreaSquareMeters(hexRing)));
+    mask.coverage.set(hexId, coverage);
+  }
+  return coverage;
+}
+
+/**
+ * Outline of a hex cut to the coastline, as Leaflet [lat, lng] rings per polygon.
+ * Returns null for hexes that are wholly on land (or regions without land data),
+ * which are drawn with their full boundary. Each hex is cut once per region.
+ */
+export function getHexLandBoundary(hexId: string, region: RegionProfile): [number, number][][][] | null {
+  const coastline = getCoastline(region);
+  if (!coastline || getHexLandCoverage(hexId, region) >= FULL_LAND_COVERAGE) return null;
+
+  let boundary = coastline.boundaries.get(hexId);
+  if (boundary === undefined) {
+    boundary = clipLandToHex(coastline.polygons, getHexRing(hexId)).map((rings) =>
+      rings.map((ring) => ring.map(([lng, lat]): [number, number] => [lat, lng]))
+    );
+    coastline.boundaries.set(hexId, boundary);
+  }
+  return boundary;
+}
+
 /**
- * Check if a hex cell's center is on land (not over sea)
+ * Check if at least the given share of a hex cell is on land (not over sea)
  */
-export function isHexOnLand(hexId: string): boolean {
-  const center = getHexCenter(hexId);
-  const pt = point([center.lng, center.lat]); // GeoJSON uses [lng, lat]
-  return booleanPointInPolygon(pt, landPolygons);
+export function isHexOnLand(hexId: string, region: RegionProfile, minCoverage = DEFAULT_LAND_COVERAGE): boolean {
+  return getHexLandCoverage(hexId, region) >= minCoverage;
 }
 
 /**
  * Filter hex IDs to only include those on land
  */
-export function filterHexesToLand(hexIds: string[]): string[] {
-  return hexIds.filter(isHexOnLand);
+export function filterHexesToLand(
+  hexIds: string[],
+  region: RegionProfile,
+  minCoverage = DEFAULT_LAND_COVERAGE
+): string[] {
+  return hexIds.filter((hexId) => isHexOnLand(hexId, region, minCoverage));
 }
 
 /**
@@ -148,17 +307,17 @@ export function getHexForCoordinate(lat: number, lng: number, resolution: number
 }
 
 /**
- * Get set of hex IDs that contain buildings at any resolution
- * Returns a map from resolution to Set of hex IDs
+ * Get the hex IDs that contain buildings at any resolution
+ * Returns a map from resolution to the number of buildings in each hex
  */
 export function getBuildingHexIds(
   buildings: Array<{ addresses?: Array<{ coordinates: { lat: number; lng: number } }> }>,
   resolutions: number[] = [6, 7, 8, 9]
-): Map<number, Set<string>> {
-  const result = new Map<number, Set<string>>();
+): Map<number, Map<string, number>> {
+  const result = new Map<number, Map<string, number>>();
 
   for (const res of resolutions) {
-    result.set(res, new Set());
+    result.set(res, new Map());
   }
 
   for (const building of buildings) {
@@ -167,7 +326,8 @@ export function getBuildingHexIds(
 
     for (const res of resolutions) {
       const hexId = latLngToCell(coord.lat, coord.lng, res);
-      result.get(res)!.add(hexId);
+      const counts = result.get(res)!;
+      counts.set(hexId, (counts.get(hexId) ?? 0) + 1);
     }
   }
 
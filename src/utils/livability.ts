@@ -0,0 +1,209 @@
+import { latLngToCell } from 'h3-js';
+import {
+  aggregateScoresToResolution,
+  formatTravelTime,
+  getStatisticScores,
+  type Aggregation,
+  type HexScoreMap,
+  type TravelTimeStatistic,
+} from './scoring';
+import {
+  FASTEST_MODE,
+  getAvailableModes,
+  getFastestModeScores,
+  type ModeDataset,
+  type TravelMode,
+  type TravelModeView,
+} from './modes';
+
+/**
+ * Composite livability score
+ *
+ * Each indicator holds a raw value per hex (travel minutes to a destination,
+ * or a building statistic averaged over the hex's buildings). Indicators are
+ * normalised to 0-100 across the hexes at the display resolution, with 100
+ * the best hex, and combined into one 0-100 score as a weighted mean.
+ */
+
+export interface Indicator {
+  id: string;
+  label: string;
+  // Travel minutes are better when low; building statistics when high
+  higherIsBetter: boolean;
+  // Weight used until the user changes it
+  defaultWeight: number;
+  values: HexScoreMap;
+  format: (value: number) => string;
+}
+
+// Weights chosen in the weights panel, by indicator id
+export type IndicatorWeights = Record<string, number>;
+
+export const MAX_INDICATOR_WEIGHT = 5;
+
+/**
+ * How one indicator adds to a hex's composite score
+ */
+export interface IndicatorContribution {
+  id: string;
+  label: string;
+  value: string; // Formatted raw value
+  normalized: number; // 0-100
+  share: number; // Share of the composite score's weight (0-1)
+  points: number; // normalized * share
+}
+
+export interface LivabilityBreakdown {
+  score: number;
+  contributions: IndicatorContribution[];
+}
+
+type BuildingIndicatorProperty = 'like_count' | 'could_buy_count' | 'subscribersCount';
+
+// Building statistics that can be used as indicators
+const BUILDING_INDICATORS: { id: string; label: string; property: BuildingIndicatorProperty }[] = [
+  { id: 'likes', label: 'Likes per building', property: 'like_count' },
+  { id: 'could-buy', label: 'Would buy per building', property: 'could_buy_count' },
+  { id: 'subscribers', label: 'Subscribers per building', property: 'subscribersCount' },
+];
+
+// Weight of the travel time to the selected destination, relative to the building indicators
+const SELECTED_DESTINATION_WEIGHT = 2;
+
+export function getIndicatorWeight(indicator: Indicator, weights: IndicatorWeights): number {
+  return weights[indicator.id] ?? indicator.defaultWeight;
+}
+
+/**
+ * Travel time indicator for a destination, using the same mode, statistic and
+ * aggregation as the map. Destinations without the mode fall back to their first mode.
+ */
+export function getTravelTimeIndicator(
+  destination: { id: string; name: string },
+  dataset: ModeDataset,
+  modeView: TravelModeView,
+  statistic: TravelTimeStatistic,
+  resolution: number,
+  aggregation: Aggregation,
+  selected: boolean
+): Indicator {
+  const modes = getAvailableModes(dataset);
+  const scoresFor = (mode: TravelMode) =>
+    aggregateScoresToResolution(getStatisticScores(dataset[mode] ?? {}, statistic), resolution, aggregation);
+
+  let values: HexScoreMap = {};
+  if (modeView === FASTEST_MODE) {
+    values = getFastestModeScores(Object.fromEntries(modes.map((mode) => [mode, scoresFor(mode)]))).scores;
+  } else if (modes.length > 0) {
+    values = scoresFor(modes.includes(modeView) ? modeView : modes[0]);
+  }
+
+  return {
+    id: `travel-time:${destination.id}`,
+    label: `Travel time to ${destination.name}`,
+    higherIsBetter: false,
+    defaultWeight: selected ? SELECTED_DESTINATION_WEIGHT : 0,
+    values,
+    format: formatTravelTime,
+  };
+}
+
+/**
+ * Building statistics averaged over the buildings of each hex
+ */
+export function getBuildingIndicators(
+  buildings: Array<{
+    addresses?: Array<{ coordinates: { lat: number; lng: number } }>;
+    properties?: Partial<Record<BuildingIndicatorProperty, number>>;
+  }>,
+  resolution: number
+): Indicator[] {
+  const totals = BUILDING_INDICATORS.map(() => new Map<string, number>());
+  const counts = new Map<string, number>();
+
+  for (const building of buildings) {
+    const coord = building.addresses?.[0]?.coordinates;
+    if (!coord) continue;
+
+    const hexId = latLngToCell(coord.lat, coord.lng, resolution);
+    counts.set(hexId, (counts.get(hexId) ?? 0) + 1);
+    BUILDING_INDICATORS.forEach(({ property }, i) => {
+      totals[i].set(hexId, (totals[i].get(hexId) ?? 0) + (building.properties?.[property] ?? 0));
+    });
+  }
+
+  return BUILDING_INDICATORS.map(({ id, label }, i) => {
+    const values: HexScoreMap = {};
+    for (const [hexId, count] of counts) {
+      values[hexId] = totals[i].get(hexId)! / count;
+    }
+    return { id, label, higherIsBetter: true, defaultWeight: 1, values, format: (value) => value.toFixed(1) };
+  });
+}
+
+/**
+ * Scale an indicator to 0-100 over its hexes, 100 being the best hex.
+ * An indicator with the same value everywhere scores 100 everywhere.
+ */
+export function normalizeIndicator(indicator: Indicator): HexScoreMap {
+  const values = Object.values(indicator.values);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+
+  const result: HexScoreMap = {};
+  for (const [hexId, value] of Object.entries(indicator.values)) {
+    const scaled = max > min ? (value - min) / (max - min) : 1;
+    result[hexId] = (indicator.higherIsBetter ? scaled : 1 - scaled) * 100;
+  }
+  return result;
+}
+
+/**
+ * Composite score of a hex with the contribution of every weighted indicator.
+ * Indicators without a value for the hex are left out and the remaining
+ * weights scaled up. Returns null when no weighted indicator covers the hex.
+ */
+export function getLivabilityBreakdown(
+  hexId: string,
+  indicators: Indicator[],
+  normalized: Record<string, HexScoreMap>,
+  weights: IndicatorWeights
+): LivabilityBreakdown | null {
+  const present = indicators.filter(
+    (indicator) => getIndicatorWeight(indicator, weights) > 0 && normalized[indicator.id]?.[hexId] !== undefined
+  );
+  const totalWeight = present.reduce((sum, indicator) => sum + getIndicatorWeight(indicator, weights), 0);
+  if (totalWeight === 0) return null;
+
+  const contributions = present.map((indicator): IndicatorContribution => {
+    const share = getIndicatorWeight(indicator, weights) / totalWeight;
+    const value = normalized[indicator.id][hexId];
+    return {
+      id: indicator.id,
+      label: indicator.label,
+      value: indicator.format(indicator.values[hexId]),
+      normalized: value,
+      share,
+      points: value * share,
+    };
+  });
+
+  return { score: contributions.reduce((sum, c) => sum + c.points, 0), contributions };
+}
+
+/**
+ * Composite 0-100 scores of the given hexes
+ */
+export function computeLivabilityScores(
+  hexIds: string[],
+  indicators: Indicator[],
+  normalized: Record<string, HexScoreMap>,
+  weights: IndicatorWeights
+): HexScoreMap {
+  const result: HexScoreMap = {};
+  for (const hexId of hexIds) {
+    const breakdown = getLivabilityBreakdown(hexId, indicators, normalized, weights);
+    if (breakdown) result[hexId] = Math.round(breakdown.score);
+  }
+  return result;
+}
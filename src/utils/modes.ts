@@ -0,0 +1,61 @@
+import type { HexScoreMap, HexTravelTimeDataset } from './scoring';
+
+export type TravelMode = 'transit' | 'bicycle' | 'walk' | 'car';
+
+export const TRAVEL_MODES: { id: TravelMode; label: string }[] = [
+  { id: 'transit', label: 'Public transport' },
+  { id: 'bicycle', label: 'Bike' },
+  { id: 'walk', label: 'Walk' },
+  { id: 'car', label: 'Car' },
+];
+
+// Map view that picks the quickest available mode for every hex
+export const FASTEST_MODE = 'fastest';
+
+export type TravelModeView = TravelMode | typeof FASTEST_MODE;
+
+/**
+ * Travel time datasets for one destination, keyed by mode
+ */
+export type ModeDataset = Partial<Record<TravelMode, HexTravelTimeDataset>>;
+
+export function isTravelMode(value: string): value is TravelMode {
+  return TRAVEL_MODES.some((m) => m.id === value);
+}
+
+export function getTravelModeLabel(mode: TravelMode): string {
+  return TRAVEL_MODES.find((m) => m.id === mode)?.label ?? mode;
+}
+
+/**
+ * Modes that have data in the dataset, in display order
+ */
+export function getAvailableModes(dataset: ModeDataset): TravelMode[] {
+  return TRAVEL_MODES.map((m) => m.id).filter((id) => dataset[id] !== undefined);
+}
+
+/**
+ * Combine per-mode scores into the best travel time for each hex
+ * Returns the scores along with the mode that achieves them
+ */
+export function getFastestModeScores(scoresByMode: Partial<Record<TravelMode, HexScoreMap>>): {
+  scores: HexScoreMap;
+  modes: Record<string, TravelMode>;
+} {
+  const scores: HexScoreMap = {};
+  const modes: Record<string, TravelMode> = {};
+
+  for (const mode of TRAVEL_MODES.map((m) => m.id)) {
+    const modeScores = scoresByMode[mode];
+    if (!modeScores) continue;
+
+    for (const [hexId, minutes] of Object.entries(modeScores)) {
+      if (scores[hexId] === undefined || minutes < scores[hexId]) {
+        scores[hexId] = minutes;
+        modes[hexId] = mode;
+      }
+    }
+  }
+
+  return { scores, modes };
+}
@@ -0,0 +1,187 @@
+import type { FeatureCollection, MultiPolygon, Polygon } from 'geojson';
+import helsinkiLand from '../data/helsinki-land.json';
+import helsinkiLandLight from '../data/helsinki-land-light.json';
+import espooLand from '../data/espoo-land.json';
+import vantaaLand from '../data/vantaa-land.json';
+import helsinkiHexIndex from '../data/hex-index/helsinki.json';
+import espooHexIndex from '../data/hex-index/espoo.json';
+import vantaaHexIndex from '../data/hex-index/vantaa.json';
+import capitalRegionHexIndex from '../data/hex-index/capital-region.json';
+import type { HexIndex, MapBounds } from './h3';
+
+/**
+ * Study area definitions
+ *
+ * A region profile is the single source for which area the app and the data
+ * scripts cover: the hexes are generated from its polygons, and the map opens
+ * at its center with its default destination selected.
+ */
+
+export interface RegionProfile {
+  id: string;
+  name: string;
+  // Outlines as [lat, lng] rings; the study area is the union of all parts
+  polygons: [number, number][][];
+  // Bounding box for data processing (slightly larger than the polygons)
+  bounds: MapBounds;
+  center: { lat: number; lng: number };
+  zoom: number;
+  // Land polygons used to drop sea hexes (written by create-land-polygon); null when no
+  // coastline has been processed for the region and everything inside the polygons counts as land
+  land: FeatureCollection<Polygon | MultiPolygon> | null;
+  // Simplified copy of the land polygons (written by simplify-land) for land coverage
+  // checks; the detailed polygons are only used to draw hexes cut to the coastline
+  landMask: FeatureCollection<Polygon | MultiPolygon> | null;
+  // Precomputed study area hexes; computed at runtime when missing
+  hexIndex: HexIndex | null;
+  defaultDestinationId: string;
+}
+
+// Outlines follow the municipal borders on land. Like the borders themselves, their sea
+// sides run offshore: the land polygons cut them to the coastline and the islands.
+
+// Helsinki
+const HELSINKI_POLYGON: [number, number][] = [
+  // Western edge - Espoo border area
+  [60.295, 24.82],
+  [60.275, 24.80],
+  [60.245, 24.80],
+  [60.225, 24.82],
+  // Espoo border through Laajalahti and out to sea west of Lauttasaari
+  [60.185, 24.83],
+  [60.105, 24.83],
+  // Sea - the inner archipelago from Lauttasaari to Vuosaari
+  [60.105, 25.15],
+  // Northeast corner
+  [60.245, 25.15],
+  [60.275, 25.14],
+  [60.295, 25.10],
+  // Northern edge
+  [60.295, 25.00],
+  [60.295, 24.90],
+  // Close polygon
+  [60.295, 24.82],
+];
+
+// Espoo, sharing its eastern edge with the Helsinki outline
+const ESPOO_POLYGON: [number, number][] = [
+  // Eastern edge - Helsinki border
+  [60.275, 24.80],
+  [60.245, 24.80],
+  [60.225, 24.82],
+  [60.185, 24.83],
+  [60.105, 24.83],
+  // Sea - the archipelago off Otaniemi, Matinkylä and Espoonlahti
+  [60.105, 24.50],
+  // Western edge - Kirkkonummi border
+  [60.150, 24.50],
+  [60.210, 24.50],
+  [60.265, 24.52],
+  [60.320, 24.55],
+  // Northern edge - Nuuksio, Vantaa border
+  [60.355, 24.60],
+  [60.350, 24.70],
+  [60.310, 24.76],
+  // Close polygon
+  [60.275, 24.80],
+];
+
+// Vantaa, sharing its southern edge with the Helsinki outline
+const VANTAA_POLYGON: [number, number][] = [
+  // Southern edge - Helsinki border
+  [60.295, 24.82],
+  [60.295, 24.90],
+  [60.295, 25.00],
+  [60.295, 25.10],
+  [60.275, 25.14],
+  // Eastern edge - Sipoo border
+  [60.290, 25.25],
+  [60.330, 25.26],
+  // Northern edge - Kerava and Tuusula borders
+  [60.360, 25.15],
+  [60.370, 25.00],
+  [60.370, 24.85],
+  // Western edge - Espoo border
+  [60.350, 24.75],
+  [60.310, 24.76],
+  // Close polygon
+  [60.295, 24.82],
+];
+
+type LandPolygons = FeatureCollection<Polygon | MultiPolygon>;
+
+// Land of an area made of several regions; the regions' land polygons only touch at their shared edges
+function mergeLand(...parts: LandPolygons[]): LandPolygons {
+  return { type: 'FeatureCollection', features: parts.flatMap((part) => part.features) };
+}
+
+const HELSINKI_LAND = helsinkiLand as LandPolygons;
+const HELSINKI_LAND_LIGHT = helsinkiLandLight as LandPolygons;
+const ESPOO_LAND = espooLand as LandPolygons;
+const VANTAA_LAND = vantaaLand as LandPolygons;
+
+export const REGIONS: RegionProfile[] = [
+  {
+    id: 'helsinki',
+    name: 'Helsinki',
+    polygons: [HELSINKI_POLYGON],
+    bounds: { north: 60.30, south: 60.10, east: 25.25, west: 24.78 },
+    center: { lat: 60.1699, lng: 24.9384 }, // Helsinki Railway Station
+    zoom: 12,
+    land: HELSINKI_LAND,
+    landMask: HELSINKI_LAND_LIGHT,
+    hexIndex: helsinkiHexIndex,
+    defaultDestinationId: 'city-center',
+  },
+  {
+    id: 'espoo',
+    name: 'Espoo',
+    polygons: [ESPOO_POLYGON],
+    bounds: { north: 60.36, south: 60.10, east: 24.86, west: 24.49 },
+    center: { lat: 60.2055, lng: 24.6559 }, // Espoo Centre
+    zoom: 11,
+    // Built from coarse land polygons only, light enough to use for the coverage checks as well
+    land: ESPOO_LAND,
+    landMask: null,
+    hexIndex: espooHexIndex,
+    defaultDestinationId: 'keilaniemi',
+  },
+  {
+    id: 'vantaa',
+    name: 'Vantaa',
+    polygons: [VANTAA_POLYGON],
+    bounds: { north: 60.38, south: 60.26, east: 25.27, west: 24.74 },
+    center: { lat: 60.2925, lng: 25.0440 }, // Tikkurila station
+    zoom: 11,
+    land: VANTAA_LAND,
+    landMask: null,
+    hexIndex: vantaaHexIndex,
+    defaultDestinationId: 'tikkurila',
+  },
+  {
+    id: 'capital-region',
+    name: 'Capital region',
+    polygons: [HELSINKI_POLYGON, ESPOO_POLYGON, VANTAA_POLYGON],
+    bounds: { north: 60.38, south: 60.10, east: 25.27, west: 24.49 },
+    center: { lat: 60.2200, lng: 24.9000 },
+    zoom: 11,
+    land: mergeLand(HELSINKI_LAND, ESPOO_LAND, VANTAA_LAND),
+    landMask: mergeLand(HELSINKI_LAND_LIGHT, ESPOO_LAND, VANTAA_LAND),
+    hexIndex: capitalRegionHexIndex,
+    defaultDestinationId: 'city-center',
+  },
+];
+
+// Region used when no explicit choice has been made
+export const DEFAULT_REGION_ID = 'helsinki';
+
+export function findRegion(id: string): RegionProfile | undefined {
+  return REGIONS.find((r) => r.id === id);
+}
+
+/**
+ * Look up a region by id, falling back to the default region
+ */
+export function getRegion(id: string): RegionProfile {
+  return findRegion(id) ?? findRegion(DEFAULT_REGION_ID) ?? REGIONS[0];
+}
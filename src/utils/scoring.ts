@@ -1,6 +1,7 @@
 import { cellToParent } from 'h3-js';
 import { getTravelTimeColor } from './colors';
 import { BASE_H3_RESOLUTION } from './h3';
+import { mean, median, percentile } from './statistics';
 
 export interface HexScore {
   hexId: string;
@@ -11,6 +12,101 @@ export interface HexScoreMap {
   [hexId: string]: number; // travel time in minutes
 }
 
+/**
+ * Travel time distribution over the sampled departure times (minutes).
+ * Departures without a route count as slower than any trip, so median and p90
+ * are null when fewer than half or 90% of the departures had a route.
+ */
+export interface TravelTimeStats {
+  min: number;
+  median: number | null;
+  p90: number | null;
+}
+
+export type TravelTimeStatistic = keyof TravelTimeStats;
+
+export const TRAVEL_TIME_STATISTICS: { id: TravelTimeStatistic; label: string }[] = [
+  { id: 'min', label: 'Best case (min)' },
+  { id: 'median', label: 'Typical (median)' },
+  { id: 'p90', label: 'Reliable (90th percentile)' },
+];
+
+/**
+ * Route details of a representative (median) itinerary
+ */
+export interface ItineraryDetails {
+  transfers: number;
+  walkDistance: number; // metres
+  waitingTime: number; // minutes, including the wait before the first vehicle
+  firstLegMode: string; // OTP mode, e.g. WALK, BUS
+  lines: { mode: string; name: string }[]; // transit legs in travel order
+}
+
+/**
+ * Distribution of one fetched direction with the number of departures sampled
+ * and how many of them had a route (missing in older datasets)
+ */
+export interface SampledTravelTimeStats extends TravelTimeStats {
+  departures?: number;
+  routed?: number;
+}
+
+/**
+ * Departures sampled for a hex and how many of them had a route
+ */
+export interface DepartureCoverage {
+  departures: number;
+  routed: number;
+}
+
+/**
+ * Trip back from the destination to the hex, sampled over the return window
+ */
+export interface ReturnTripRecord extends SampledTravelTimeStats {
+  itinerary?: ItineraryDetails;
+  window: string; // Departure window at the destination, e.g. "16:30-18:00"
+}
+
+/**
+ * Full per-hex record written by the fetcher
+ */
+export interface HexTravelTimeRecord extends SampledTravelTimeStats {
+  itinerary?: ItineraryDetails;
+  fetchedAt?: string; // ISO 8601 time the values were fetched
+  source?: string; // Routing API or timetable version that produced them
+  // Destination to hex trip; null when there is no route back, missing when not fetched
+  returnTrip?: ReturnTripRecord | null;
+}
+
+/**
+ * Per-hex value as stored in a dataset file.
+ * Older datasets hold a single number of minutes or bare statistics per hex.
+ */
+export type HexTravelTimeValue = number | TravelTimeStats | HexTravelTimeRecord;
+
+export interface HexTravelTimeDataset {
+  [hexId: string]: HexTravelTimeValue;
+}
+
+/**
+ * Pick one statistic from every hex of a dataset
+ * Flat (single value) entries are used as-is for every statistic; hexes where
+ * too few departures had a route for the statistic are left out
+ */
+export function getStatisticScores(
+  dataset: HexTravelTimeDataset,
+  statistic: TravelTimeStatistic
+): HexScoreMap {
+  const result: HexScoreMap = {};
+  for (const [hexId, value] of Object.entries(dataset)) {
+    const minutes = typeof value === 'number' ? value : value[statistic];
+    if (minutes !== null) {
+      result[hexId] = minutes;
+    }
+  }
+  return result;
+}
+
 /**
  * Get the score display info for a hex
  */
@@ -34,19 +130,191 @@ export function formatTravelTime(minutes: number): string {
   return mins > 0 ? `${hours}h ${mins}min` : `${hours}h`;
 }
 
+const LEG_MODE_NAMES: Record<string, string> = {
+  BUS: 'bus',
+  TRAM: 'tram',
+  SUBWAY: 'metro',
+  RAIL: 'train',
+  FERRY: 'ferry',
+};
+
+/**
+ * Format itinerary details for display, e.g. "2 transfers · 850 m walk · tram 4 → metro M1"
+ */
+export function formatItinerary(details: ItineraryDetails): string {
+  const parts: string[] = [];
+
+  if (details.lines.length > 0) {
+    parts.push(details.transfers === 1 ? '1 transfer' : `${details.transfers} transfers`);
+  }
+  parts.push(
+    details.walkDistance >= 1000
+      ? `${(details.walkDistance / 1000).toFixed(1)} km walk`
+      : `${Math.round(details.walkDistance / 10) * 10} m walk`
+  );
+  if (details.waitingTime > 0) {
+    parts.push(`${Math.round(details.waitingTime)} min wait`);
+  }
+  if (details.lines.length > 0) {
+    parts.push(
+      details.lines
+        .map((line) => `${LEG_MODE_NAMES[line.mode] ?? line.mode.toLowerCase()} ${line.name}`.trim())
+        .join(' → ')
+    );
+  }
+
+  return parts.join(' · ');
+}
+
+/**
+ * Get itinerary details for every hex of a dataset that has them
+ */
+export function getItineraries(dataset: HexTravelTimeDataset): Record<string, ItineraryDetails> {
+  const result: Record<string, ItineraryDetails> = {};
+  for (const [hexId, value] of Object.entries(dataset)) {
+    if (typeof value !== 'number' && 'itinerary' in value && value.itinerary) {
+      result[hexId] = value.itinerary;
+    }
+  }
+  return result;
+}
+
+/**
+ * Departure coverage of every hex where some sampled departures had no route
+ */
+export function getPartialCoverage(dataset: HexTravelTimeDataset): Record<string, DepartureCoverage> {
+  const result: Record<string, DepartureCoverage> = {};
+  for (const [hexId, value] of Object.entries(dataset)) {
+    if (typeof value === 'number' || !('departures' in value) || value.departures === undefined) continue;
+    const routed = value.routed ?? value.departures;
+    if (routed < value.departures) {
+      result[hexId] = { departures: value.departures, routed };
+    }
+  }
+  return result;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Age in days of every hex that records when it was fetched
+ */
+export function getDataAges(dataset: HexTravelTimeDataset, now = Date.now()): HexScoreMap {
+  const result: HexScoreMap = {};
+  for (const [hexId, value] of Object.entries(dataset)) {
+    if (typeof value === 'number' || !('fetchedAt' in value) || !value.fetchedAt) continue;
+    const fetchedAt = Date.parse(value.fetchedAt);
+    if (!Number.isNaN(fetchedAt)) {
+      result[hexId] = Math.max(0, Math.floor((now - fetchedAt) / MS_PER_DAY));
+    }
+  }
+  return result;
+}
+
+/**
+ * Format a data age for display, e.g. "today", "12 days ago"
+ */
+export function formatDataAge(days: number): string {
+  if (days === 0) return 'today';
+  if (days === 1) return '1 day ago';
+  return `${days} days ago`;
+}
+
+/**
+ * Aggregate data ages to a lower resolution
+ * A parent hex is as old as its oldest child
+ */
+export function aggregateAgesToResolution(baseAges: HexScoreMap, targetResolution: number): HexScoreMap {
+  if (targetResolution >= BASE_H3_RESOLUTION) {
+    return baseAges;
+  }
+
+  const result: HexScoreMap = {};
+  for (const [hexId, age] of Object.entries(baseAges)) {
+    const parentHex = cellToParent(hexId, targetResolution);
+    result[parentHex] = Math.max(result[parentHex] ?? 0, age);
+  }
+  return result;
+}
+
+/**
+ * How child hex scores are combined into a parent hex when zoomed out
+ */
+export type AggregationMethod = 'mean' | 'median' | 'min' | 'max' | 'percentile' | 'building-weighted';
+
+export const AGGREGATION_METHODS: { id: AggregationMethod; label: string }[] = [
+  { id: 'mean', label: 'Mean' },
+  { id: 'median', label: 'Median' },
+  { id: 'min', label: 'Best child (min)' },
+  { id: 'max', label: 'Worst child (max)' },
+  { id: 'percentile', label: 'Percentile' },
+  { id: 'building-weighted', label: 'Building-weighted mean' },
+];
+
+export interface Aggregation {
+  method: AggregationMethod;
+  // Percentile (0-100) used by the percentile method
+  percentile: number;
+  // Buildings per base resolution hex, used by the building-weighted method
+  buildingCounts?: Map<string, number>;
+}
+
+export const DEFAULT_AGGREGATION: Aggregation = { method: 'mean', percentile: 90 };
+
+/**
+ * Describe an aggregation for display, e.g. "Median", "75th percentile"
+ */
+export function formatAggregation(aggregation: Aggregation): string {
+  if (aggregation.method !== 'percentile') {
+    return AGGREGATION_METHODS.find((m) => m.id === aggregation.method)!.label;
+  }
+  const p = aggregation.percentile;
+  const suffix = p % 100 >= 11 && p % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][p % 10] ?? 'th';
+  return `${p}${suffix} percentile`;
+}
+
+// Combine the scores of one parent's children
+function aggregateChildScores(children: { hexId: string; score: number }[], aggregation: Aggregation): number {
+  const scores = children.map((child) => child.score);
+  switch (aggregation.method) {
+    case 'median':
+      return median(scores);
+    case 'min':
+      return Math.min(...scores);
+    case 'max':
+      return Math.max(...scores);
+    case 'percentile':
+      return percentile(scores, aggregation.percentile);
+    case 'building-weighted': {
+      let weightedSum = 0;
+      let totalWeight = 0;
+      for (const { hexId, score } of children) {
+        const weight = aggregation.buildingCounts?.get(hexId) ?? 0;
+        weightedSum += score * weight;
+        totalWeight += weight;
+      }
+      // Children without buildings count equally when none of them has any
+      return totalWeight > 0 ? weightedSum / totalWeight : mean(scores);
+    }
+    default:
+      return mean(scores);
+  }
+}
+
 /**
  * Aggregate base resolution scores to a lower resolution
- * Uses average of child hex scores
+ * Child hex scores are combined with the given aggregation (mean by default)
  */
 export function aggregateScoresToResolution(
   baseScores: HexScoreMap,
-  targetResolution: number
+  targetResolution: number,
+  aggregation: Aggregation = DEFAULT_AGGREGATION
 ): HexScoreMap {
   if (targetResolution >= BASE_H3_RESOLUTION) {
     return baseScores;
   }
 
-  const aggregated: Map<string, number[]> = new Map();
+  const aggregated: Map<string, { hexId: string; score: number }[]> = new Map();
 
   // Group base hexes by their parent at target resolution
   for (const [hexId, score] of Object.entries(baseScores)) {
@@ -54,14 +322,12 @@ export function aggregateScoresToResolution(
     if (!aggregated.has(parentHex)) {
       aggregated.set(parentHex, []);
     }
-    aggregated.get(parentHex)!.push(score);
+    aggregated.get(parentHex)!.push({ hexId, score });
   }
 
-  // Calculate average for each parent hex
   const result: HexScoreMap = {};
-  for (const [hexId, scores] of aggregated) {
-    const avg = scores.reduce((a, b) => a + b, 0) / scores.length;
-    result[hexId] = Math.round(avg);
+  for (const [hexId, children] of aggregated) {
+    result[hexId] = Math.round(aggregateChildScores(children, aggregation));
   }
 
   return result;
@@ -0,0 +1,44 @@
+/**
+ * Small numeric helpers shared by the map and the data scripts
+ */
+
+/**
+ * Get the p-th percentile (0-100) of a list of values using linear interpolation
+ * Returns NaN for an empty list
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return NaN;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  if (lower === upper) return sorted[lower];
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Get the median of a list of values
+ */
+export function median(values: number[]): number {
+  return percentile(values, 50);
+}
+
+/**
+ * Get the arithmetic mean of a list of values
+ */
+export function mean(values: number[]): number {
+  if (values.length === 0) return NaN;
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/**
+ * Get the p-th percentile of the trips sampled over a number of departures,
+ * counting departures without a route as slower than any trip.
+ * Returns null when the percentile lands on (or between) such departures
+ */
+export function sampledPercentile(minutes: number[], departures: number, p: number): number | null {
+  const unrouted = Array<number>(Math.max(0, departures - minutes.length)).fill(Infinity);
+  const value = percentile([...minutes, ...unrouted], p);
+  return Number.isFinite(value) ? value : null;
+}
@@ -0,0 +1,84 @@
+import { COLOR_STOPS, type ColorStop } from './colors';
+import type { HexScoreMap } from './scoring';
+import { percentile } from './statistics';
+
+/**
+ * Travel time statistics over the hexes in view
+ */
+
+// Histogram bins are HISTOGRAM_BIN_MINUTES wide; the last one holds everything from HISTOGRAM_MAX_MINUTES up
+export const HISTOGRAM_BIN_MINUTES = 5;
+export const HISTOGRAM_MAX_MINUTES = 90;
+
+export const VIEWPORT_PERCENTILES = [10, 25, 50, 75, 90];
+
+export interface HistogramBin {
+  min: number;
+  max: number; // Infinity for the last bin
+  count: number;
+}
+
+export interface BandShare {
+  stop: ColorStop;
+  hexes: number;
+  buildings: number;
+  share: number; // 0-1 of the buildings in view
+}
+
+export interface ViewportStats {
+  hexCount: number;
+  buildingCount: number;
+  histogram: HistogramBin[];
+  percentiles: { p: number; minutes: number }[];
+  bands: BandShare[];
+}
+
+/**
+ * Histogram, percentiles and hex and building counts per color band (COLOR_STOPS
+ * unless other bands are given) of the given hexes. Hexes without a travel
+ * time are left out. Each hex counts its buildings when counts are given,
+ * and once otherwise.
+ */
+export function computeViewportStats(
+  hexIds: string[],
+  scores: HexScoreMap,
+  buildingCounts?: Map<string, number>,
+  stops: ColorStop[] = COLOR_STOPS
+): ViewportStats {
+  const minutes = hexIds
+    .map((hexId) => scores[hexId])
+    .filter((value): value is number => value !== undefined && Number.isFinite(value));
+
+  const histogram: HistogramBin[] = [];
+  for (let min = 0; min < HISTOGRAM_MAX_MINUTES; min += HISTOGRAM_BIN_MINUTES) {
+    histogram.push({ min, max: min + HISTOGRAM_BIN_MINUTES, count: 0 });
+  }
+  histogram.push({ min: HISTOGRAM_MAX_MINUTES, max: Infinity, count: 0 });
+  for (const value of minutes) {
+    const bin = Math.min(Math.floor(Math.max(0, value) / HISTOGRAM_BIN_MINUTES), histogram.length - 1);
+    histogram[bin].count++;
+  }
+
+  const bands: BandShare[] = stops.map((stop) => ({ stop, hexes: 0, buildings: 0, share: 0 }));
+  let buildingCount = 0;
+  for (const hexId of hexIds) {
+    const value = scores[hexId];
+    if (value === undefined || !Number.isFinite(value)) continue;
+    const buildings = buildingCounts ? buildingCounts.get(hexId) ?? 0 : 1;
+    const band = bands.find(({ stop }) => value >= stop.min && value < stop.max) ?? bands[bands.length - 1];
+    band.hexes++;
+    band.buildings += buildings;
+    buildingCount += buildings;
+  }
+  for (const band of bands) {
+    band.share = buildingCount > 0 ? band.buildings / buildingCount : 0;
+  }
+
+  return {
+    hexCount: minutes.length,
+    buildingCount,
+    histogram,
+    percentiles: minutes.length > 0 ? VIEWPORT_PERCENTILES.map((p) => ({ p, minutes: percentile(minutes, p) })) : [],
+    bands,
+  };
+}